@@ -1,61 +1,489 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { DropZone } from './components/DropZone';
 import { BookReader } from './components/BookReader';
+import { ScrollReader } from './components/ScrollReader';
 import { Controls } from './components/Controls';
-import { ProcessedPage } from './types';
+import { PageOrganizer } from './components/PageOrganizer';
+import { RedactionPanel } from './components/RedactionPanel';
+import { SearchPanel } from './components/SearchPanel';
+import { PageInspector } from './components/PageInspector';
+import { Library } from './components/Library';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { BindingStatus } from './components/BindingStatus';
+import { AnnotationsPanel } from './components/AnnotationsPanel';
+import { LayersPanel } from './components/LayersPanel';
+import { Filmstrip, FILMSTRIP_HEIGHT } from './components/Filmstrip';
+import { PageGrid } from './components/PageGrid';
+import { ContentsPanel } from './components/ContentsPanel';
+import { PageContentProps } from './components/PageContent';
+import { ZOOM_STEP, clampZoom } from './components/ZoomViewport';
+import { ProcessedPage, ProcessedBook, BookMetadata, RedactionPolicy, RevealMode, SearchHit, ReadingMode, BindingDirection, LibraryEntry, ReaderSettings, Diagnostic, BindingProgress, ReaderLocation, Annotation, AnnotationShape, AnnotationTool, Bookmark, StoredPage } from './types';
+import { getTotalSpreads, getSpread, getSpreadIndexForPage, getPageIndexForSpread, convertSpreadIndex, getSpreadPages } from './utils/spreadUtils';
+import { parseLocationHash, formatLocationHash, findLinkedBook, findReadingPosition } from './utils/locationUtils';
+import { exportBookToPdf } from './utils/pdfUtils';
+import { buildContents, getCurrentEntry } from './utils/contentsUtils';
+import { getReadingOrder, movePage, createBlankPage, revokePageUrls } from './utils/pageUtils';
+import { processFiles, rerenderPage, restorePage } from './utils/fileUtils';
+import { ManifestError } from './utils/manifestUtils';
+import { listBooks, addBook, loadBookPages, saveBookPages, updateBook, deleteBook, getOpenBookId, setOpenBookId, toStoredPage, haveStoredPagesChanged } from './utils/libraryUtils';
+import { renderThumbnail } from './utils/thumbnailUtils';
+import { DEFAULT_REDACTION_POLICY } from './utils/redactionUtils';
+import { buildSearchIndex, searchBook } from './utils/searchUtils';
+import { createAnnotation, updatePageAnnotations, listAnnotations, downloadAnnotations, parseAnnotationsFile, importAnnotations, AnnotationsFileError } from './utils/annotationUtils';
 import { Loader2 } from 'lucide-react';
 
+// Reader zoom: 1 fits the spread or page to the screen
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+// Portrait screens are too narrow for two pages side by side, so spreads fall back to single pages there
+const PORTRAIT_QUERY = '(orientation: portrait)';
+const getLayoutMode = (mode: ReadingMode, isPortrait: boolean): ReadingMode => mode === 'spread' && isPortrait ? 'single' : mode;
+
+// How long edits to the pages settle before they are written to the library
+const PAGE_SAVE_DELAY = 1000;
+
 const App: React.FC = () => {
   const [pages, setPages] = useState<ProcessedPage[]>([]);
   const [spreadIndex, setSpreadIndex] = useState(0);
   const [hasCover, setHasCover] = useState(true);
   const [useSpacer, setUseSpacer] = useState(true); // Defaults to true so Page 1 is on the right
+  const [readingMode, setReadingMode] = useState<ReadingMode>('spread');
+  const [direction, setDirection] = useState<BindingDirection>('ltr');
+  const [metadata, setMetadata] = useState<BookMetadata>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isOrganizerOpen, setIsOrganizerOpen] = useState(false);
+  const [redactionPolicy, setRedactionPolicy] = useState<RedactionPolicy>(DEFAULT_REDACTION_POLICY);
+  const [isRedactionPanelOpen, setIsRedactionPanelOpen] = useState(false);
+  const [isLayersPanelOpen, setIsLayersPanelOpen] = useState(false);
+  const [bookDiagnostics, setBookDiagnostics] = useState<Diagnostic[]>([]);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [revealMode, setRevealMode] = useState<RevealMode>('off');
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isContentsOpen, setIsContentsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeHit, setActiveHit] = useState<SearchHit | null>(null);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [inspectedPageId, setInspectedPageId] = useState<string | null>(null);
+  const [isFilmstripOpen, setIsFilmstripOpen] = useState(false);
+  const [isOverviewOpen, setIsOverviewOpen] = useState(false);
+  const [isAnnotationsOpen, setIsAnnotationsOpen] = useState(false);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool | null>(null);
+  const [showAnnotations, setShowAnnotations] = useState(true);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [bookId, setBookId] = useState<string | null>(null);
+  const [bookTitle, setBookTitle] = useState<string>();
+  const [library, setLibrary] = useState<LibraryEntry[]>([]);
+  // While a dropped book is still being processed: its progress, and its library entry to save once it is done
+  const [bindingProgress, setBindingProgress] = useState<BindingProgress | null>(null);
+  const [unsavedEntry, setUnsavedEntry] = useState<LibraryEntry | null>(null);
+  const [isPortrait, setIsPortrait] = useState(() => window.matchMedia(PORTRAIT_QUERY).matches);
+  // False while a linked book is being opened, so the URL hash isn't overwritten before it is shown
+  const [isLocationReady, setIsLocationReady] = useState(false);
 
-  const totalSpreads = useCallback(() => {
-    if (pages.length === 0) return 0;
-    
-    let contentPages = pages.length;
-    let spreads = 0;
+  // The layout actually shown; spreadIndex counts in its units. readingMode is what the reader chose.
+  const layoutMode = getLayoutMode(readingMode, isPortrait);
 
-    if (hasCover) {
-      // Cover takes 1 spread
-      spreads += 1;
-      contentPages -= 1; // Remaining pages
-      
-      if (useSpacer) {
-        // [Spacer, P1], [P2, P3]...
-        // contentPages 1 -> 1 spread (Spacer, P1)
-        // contentPages 2 -> 1 spread (Spacer, P1) -> wait, no. 
-        // [Spacer, P1], [P2, X]
-        spreads += Math.ceil((contentPages + 1) / 2);
-      } else {
-        // [P1, P2], [P3, P4]...
-        spreads += Math.ceil(contentPages / 2);
-      }
-    } else {
-      // No cover
-      if (useSpacer) {
-        // [Spacer, P0], [P1, P2]
-        spreads += Math.ceil((contentPages + 1) / 2);
-      } else {
-        // [P0, P1], [P2, P3]
-        spreads += Math.ceil(contentPages / 2);
+  // Processing outlives the render that started it, so its callbacks read the latest state through refs
+  const bindingRef = useRef<AbortController | null>(null);
+  const pagesRef = useRef(pages);
+  const redactionPolicyRef = useRef(redactionPolicy);
+  const pendingLocationRef = useRef<ReaderLocation | null>(null);
+  useEffect(() => {
+    pagesRef.current = pages;
+    redactionPolicyRef.current = redactionPolicy;
+  });
+
+  // The edited sequence without hidden pages; this is what the reader and spread math work from
+  const readingPages = useMemo(() => getReadingOrder(pages), [pages]);
+  // Looked up by id so the inspector follows re-rendered pages and closes if its page goes away
+  const inspectedPage = readingPages.find(p => p.id === inspectedPageId) ?? null;
+
+  // Every redaction tag in the book, with how many pages use it
+  const redactionTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    pages.forEach(p => p.redactionTags?.forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+    return Array.from(counts, ([tag, pageCount]) => ({ tag, pageCount })).sort((a, b) => a.tag.localeCompare(b.tag));
+  }, [pages]);
+
+  // Every other tag in the book, shown as a layer that can be hidden
+  const layers = useMemo(() => {
+    const counts = new Map<string, number>();
+    pages.forEach(p => p.layerTags?.forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+    return Array.from(counts, ([tag, pageCount]) => ({ tag, pageCount })).sort((a, b) => a.tag.localeCompare(b.tag));
+  }, [pages]);
+
+  // Rebuilt when pages are edited or the redaction policy changes, so redacted text is never searchable
+  const searchIndex = useMemo(() => buildSearchIndex(readingPages, redactionPolicy), [readingPages, redactionPolicy]);
+  const searchHits = useMemo(
+    () => isSearchOpen ? searchBook(searchIndex, searchQuery) : [],
+    [isSearchOpen, searchIndex, searchQuery]
+  );
+
+  const diagnosticCount = useMemo(
+    () => bookDiagnostics.length + pages.reduce((sum, p) => sum + (p.diagnostics?.length || 0), 0),
+    [bookDiagnostics, pages]
+  );
+
+  const annotationCount = useMemo(() => listAnnotations(pages).length, [pages]);
+
+  // The pages in view: both sides of a spread, otherwise the current page
+  const currentPageIds = useMemo(() => {
+    if (layoutMode !== 'spread') return readingPages[spreadIndex] ? [readingPages[spreadIndex].id] : [];
+    const { left, right } = getSpread(readingPages, spreadIndex, hasCover, useSpacer);
+    return [left, right].filter((p): p is ProcessedPage => !!p).map(p => p.id);
+  }, [readingPages, spreadIndex, hasCover, useSpacer, layoutMode]);
+
+  // Bookmarks go on the first page in view; the chapter shown is the one the last page in view belongs to
+  const pageIndicesInView = useMemo(
+    () => readingPages.flatMap((p, i) => currentPageIds.includes(p.id) ? [i] : []),
+    [readingPages, currentPageIds]
+  );
+  const bookmarkPage = readingPages[pageIndicesInView[0]] ?? null;
+  const contents = useMemo(() => buildContents(readingPages, bookTitle), [readingPages, bookTitle]);
+  const currentEntry = pageIndicesInView.length > 0 ? getCurrentEntry(contents, pageIndicesInView[pageIndicesInView.length - 1]) : null;
+
+  // What the filmstrip and overview show: the pages at each stop of the current layout
+  const spreadPages = useMemo(
+    () => getSpreadPages(readingPages, hasCover, useSpacer, layoutMode),
+    [readingPages, hasCover, useSpacer, layoutMode]
+  );
+
+  const totalSpreads = useCallback(
+    () => getTotalSpreads(readingPages, hasCover, useSpacer, layoutMode),
+    [readingPages, hasCover, useSpacer, layoutMode]
+  );
+
+  // Keep the current spread in range when pages are hidden or removed
+  useEffect(() => {
+    setSpreadIndex(curr => Math.min(curr, Math.max(0, totalSpreads() - 1)));
+  }, [totalSpreads]);
+
+  const refreshLibrary = useCallback(() => {
+    listBooks()
+      .then(setLibrary)
+      .catch(error => console.warn("Library unavailable:", error));
+  }, []);
+
+  /**
+   * Opens a book as saved, or at the page and layout a link asks for. Whatever the link leaves out comes from the saved settings.
+   */
+  const showBook = (entry: LibraryEntry, bookPages: ProcessedPage[], location?: ReaderLocation) => {
+    const saved = entry.settings;
+    const settings: ReaderSettings = {
+      ...saved,
+      readingMode: location?.readingMode ?? saved.readingMode,
+      hasCover: location?.hasCover ?? saved.hasCover,
+      useSpacer: location?.useSpacer ?? saved.useSpacer
+    };
+    setBookId(entry.id);
+    setBookTitle(entry.title);
+    setOpenBookId(entry.id);
+    setPages(bookPages);
+    setMetadata(entry.metadata);
+    setBookDiagnostics(entry.diagnostics ?? []);
+    // Saved positions count in the saved mode's units, which may not be the layout this screen gets, so go through the page
+    const order = getReadingOrder(bookPages);
+    const pageIndex = location?.pageIndex !== undefined
+      ? findReadingPosition(order, location.pageIndex)
+      : getPageIndexForSpread(order, saved.spreadIndex, saved.hasCover, saved.useSpacer, saved.readingMode);
+    const layout = getLayoutMode(settings.readingMode, window.matchMedia(PORTRAIT_QUERY).matches);
+    setSpreadIndex(getSpreadIndexForPage(order, pageIndex, settings.hasCover, settings.useSpacer, layout));
+    setHasCover(settings.hasCover);
+    setUseSpacer(settings.useSpacer);
+    setReadingMode(settings.readingMode);
+    setDirection(settings.direction);
+    setZoom(MIN_ZOOM);
+    setIsLoading(false);
+  };
+
+  // What to save: the position counts in the chosen mode's units, whatever layout the screen has now
+  const currentSettings = (): ReaderSettings => ({
+    spreadIndex: convertSpreadIndex(readingPages, spreadIndex, hasCover, useSpacer, layoutMode, readingMode),
+    hasCover,
+    useSpacer,
+    readingMode,
+    direction,
+    hiddenLayers: redactionPolicy.hiddenLayers
+  });
+
+  const createEntry = (id: string, book: ProcessedBook): LibraryEntry => {
+    // Start from the manifest's layout, falling back to the defaults for a new book
+    const settings: ReaderSettings = {
+      spreadIndex: 0,
+      hasCover: book.metadata.hasCover ?? true,
+      useSpacer: book.metadata.useSpacer ?? true,
+      readingMode,
+      direction: book.metadata.direction ?? 'ltr',
+      hiddenLayers: book.metadata.hiddenLayers ?? []
+    };
+    const now = Date.now();
+    return {
+      id,
+      title: book.metadata.title || book.name || book.pages[0]?.name.replace(/\.[^.]+$/, '') || 'Untitled book',
+      pageCount: getReadingOrder(book.pages).length,
+      metadata: book.metadata,
+      settings,
+      diagnostics: book.diagnostics,
+      addedAt: now,
+      openedAt: now
+    };
+  };
+
+  /**
+   * Processes dropped or picked files into a new book. The reader opens as soon as the book is laid out,
+   * and pages fill in as they are processed; the book is added to the library once every page is done.
+   */
+  const bindBook = (items: DataTransferItemList | FileList) => {
+    bindingRef.current?.abort();
+    const binding = new AbortController();
+    bindingRef.current = binding;
+    // Closing the book or starting another one makes this binding stale; its late results are dropped
+    const isCurrent = () => bindingRef.current === binding;
+    let bindingPolicy = redactionPolicy;
+    setIsLoading(true);
+
+    processFiles(items, bindingPolicy, {
+      signal: binding.signal,
+      onBookReady: (book) => {
+        if (!isCurrent()) return;
+        const entry = createEntry(crypto.randomUUID(), book);
+        // processFiles renders the pages with the layers the manifest hides; follow it so they aren't rendered again
+        bindingPolicy = { ...bindingPolicy, hiddenLayers: book.metadata.hiddenLayers ?? [] };
+        redactionPolicyRef.current = bindingPolicy;
+        setRedactionPolicy(bindingPolicy);
+        // A link to a book that wasn't in the library opens at its page once that book is dropped
+        const pending = pendingLocationRef.current;
+        pendingLocationRef.current = null;
+        showBook(entry, book.pages, pending && (!pending.title || pending.title === entry.title) ? pending : undefined);
+        setUnsavedEntry(entry);
+      },
+      onPageReady: (processed) => {
+        // The page may have been deleted in the organizer while it was being processed
+        if (!isCurrent() || !pagesRef.current.some(p => p.id === processed.id)) {
+          revokePageUrls(processed);
+          return;
+        }
+        let page = processed;
+        // Redaction choices changed meanwhile: never show a page under the old ones
+        if (redactionPolicyRef.current !== bindingPolicy) {
+          page = rerenderPage(processed, redactionPolicyRef.current);
+          URL.revokeObjectURL(processed.url);
+        }
+        // Keep the organizer's edits, imported annotations and bookmarks on the placeholder
+        setPages(curr => curr.map(p => p.id === page.id
+          ? { ...page, index: p.index, hidden: p.hidden, label: p.label, annotations: p.annotations, bookmark: p.bookmark }
+          : p));
+      },
+      onProgress: (progress) => {
+        if (isCurrent()) setBindingProgress(progress);
       }
+    })
+      .then(book => {
+        if (!isCurrent()) return;
+        bindingRef.current = null;
+        setBookDiagnostics(book.diagnostics);
+        setBindingProgress(null);
+      })
+      .catch(error => {
+        if (!isCurrent()) return;
+        closeBook();
+        console.error("Error processing files:", error);
+        // Manifest problems are the author's to fix, so tell them exactly what is wrong
+        alert(error instanceof ManifestError ? error.message : "Failed to process files. Please try again.");
+      });
+  };
+
+  const handleOpenBook = useCallback(async (entry: LibraryEntry, location?: ReaderLocation) => {
+    setIsLoading(true);
+    try {
+      const stored = await loadBookPages(entry.id);
+      // Layers are shown as they were left, redactions as this session has them
+      const policy = { ...redactionPolicy, hiddenLayers: entry.settings.hiddenLayers ?? entry.metadata.hiddenLayers ?? [] };
+      setRedactionPolicy(policy);
+      showBook(entry, stored.map(p => restorePage(p, policy)), location);
+      updateBook(entry.id, { openedAt: Date.now() }).catch(error => console.warn("Error updating library:", error));
+    } catch (error) {
+      console.error("Error opening book from library:", error);
+      setOpenBookId(null);
+      setIsLoading(false);
+      alert("Failed to open this book from your library.");
     }
-    
-    return spreads;
-  }, [pages.length, hasCover, useSpacer]);
+  }, [redactionPolicy]);
 
-  const handleFilesLoaded = (newPages: ProcessedPage[]) => {
-    setPages(newPages);
-    setSpreadIndex(0);
-    setIsLoading(false);
-    // Reset defaults for a new book
-    setHasCover(true);
-    setUseSpacer(true);
+  // Library edits show straight away and are saved in the background
+  const changeLibraryEntry = (id: string, changes: Partial<LibraryEntry>) => {
+    setLibrary(curr => curr.map(b => b.id === id ? { ...b, ...changes } : b));
+    updateBook(id, changes).catch(error => {
+      console.error("Error updating library:", error);
+      alert("Failed to save this change to your library.");
+      refreshLibrary();
+    });
+  };
+
+  const handleDeleteBook = (id: string) => {
+    setLibrary(curr => curr.filter(b => b.id !== id));
+    deleteBook(id).catch(error => {
+      console.error("Error deleting book:", error);
+      alert("Failed to delete this book from your library.");
+      refreshLibrary();
+    });
   };
 
+  // On startup, list the library and open the book the URL links to, or else the one that was open before the reload
+  useEffect(() => {
+    listBooks()
+      .then(async books => {
+        setLibrary(books);
+        const linked = parseLocationHash(window.location.hash);
+        const linkedBook = linked && findLinkedBook(books, linked);
+        if (linked && linkedBook) {
+          await handleOpenBook(linkedBook, linked);
+        } else if (linked) {
+          // Keep the link for when the book is dropped
+          pendingLocationRef.current = linked;
+          alert(`This link points to ${linked.title ? `"${linked.title}"` : 'a book'}, which is not in your library. Drop its folder or archive to open it at the linked page.`);
+        } else {
+          const openBook = books.find(b => b.id === getOpenBookId());
+          if (openBook) await handleOpenBook(openBook);
+        }
+      })
+      .catch(error => console.warn("Library unavailable:", error))
+      .finally(() => setIsLocationReady(true));
+  }, []);
+
+  // Remember where we are in the book and how it is laid out
+  useEffect(() => {
+    if (!bookId) return;
+    updateBook(bookId, { settings: currentSettings() })
+      .catch(error => console.warn("Error saving reading position:", error));
+  }, [bookId, spreadIndex, hasCover, useSpacer, readingMode, direction, redactionPolicy.hiddenLayers]);
+
+  // Mirror the position in the URL hash so it can be linked to. Every page turned is a step for back/forward,
+  // except in scroll mode, where it changes with every page scrolled past.
+  const lastLocationRef = useRef<{ bookId: string | null; pageIndex?: number } | null>(null);
+  useEffect(() => {
+    if (!isLocationReady) return;
+    const firstPage = readingPages[getPageIndexForSpread(readingPages, spreadIndex, hasCover, useSpacer, layoutMode)];
+    const hash = bookId
+      ? formatLocationHash({ bookId, title: bookTitle, pageIndex: firstPage?.index, readingMode, hasCover, useSpacer })
+      : '';
+    const last = lastLocationRef.current;
+    lastLocationRef.current = { bookId, pageIndex: firstPage?.index };
+    if (hash === window.location.hash) return;
+
+    const url = hash || window.location.pathname + window.location.search;
+    const isNewPlace = last && (last.bookId !== bookId || last.pageIndex !== firstPage?.index);
+    if (isNewPlace && layoutMode !== 'scroll') window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  }, [isLocationReady, bookId, bookTitle, readingPages, spreadIndex, hasCover, useSpacer, readingMode, layoutMode]);
+
+  // Back, forward and edited links: go where the URL now points
+  useEffect(() => {
+    const handlePopState = () => {
+      // The URL has already moved, so what we show now replaces its history entry rather than adding one
+      lastLocationRef.current = null;
+      const location = parseLocationHash(window.location.hash);
+      if (!location) {
+        if (bookId) closeBook();
+        return;
+      }
+      const book = location.bookId === bookId ? undefined : findLinkedBook(library, location);
+      if (location.bookId === bookId || book?.id === bookId) {
+        showLocation(location);
+        return;
+      }
+      if (!book) return;
+      if (bookId) closeBook();
+      setIsLocationReady(false);
+      handleOpenBook(book, location).finally(() => setIsLocationReady(true));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [bookId, library, readingPages, spreadIndex, hasCover, useSpacer, readingMode, isPortrait, handleOpenBook]);
+
+  // The library shows the first page, always fully redacted whatever this session has switched off,
+  // with the layers the book hides by default
+  const coverPage = readingPages[0];
+  useEffect(() => {
+    if (!bookId || !coverPage || coverPage.isPending || unsavedEntry) return;
+    const thumbnailPage = rerenderPage(coverPage, { ...DEFAULT_REDACTION_POLICY, hiddenLayers: metadata.hiddenLayers ?? [] });
+    const finished = coverPage.isBlank
+      ? Promise.resolve(undefined)
+      : renderThumbnail(thumbnailPage.url, coverPage.width || 595, coverPage.height || 842);
+    finished
+      .then(thumbnail => updateBook(bookId, { thumbnail }))
+      .catch(error => console.warn("Error creating thumbnail:", error))
+      .finally(() => {
+        if (thumbnailPage.url !== coverPage.url) URL.revokeObjectURL(thumbnailPage.url);
+      });
+  }, [bookId, coverPage?.id, coverPage?.isPending, unsavedEntry]);
+
+  // What the library last got for the open book, so only real edits are written back
+  const savedPagesRef = useRef<{ bookId: string; pages: StoredPage[] } | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+
+  // Edits still waiting to be saved go in when the tab is hidden, reloaded or closed, or the app goes away.
+  // Declared before the saving effect, so on unmount this runs before that one drops its pending save.
+  useEffect(() => {
+    const flush = () => pendingSaveRef.current?.();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, []);
+
+  // Keep the saved pages in step with the organizer's, annotation and bookmark edits, once they settle.
+  // A new book is only added to the library once all of its pages have been processed.
+  useEffect(() => {
+    if (!bookId || bindingProgress) return;
+    if (unsavedEntry) {
+      setUnsavedEntry(null);
+      const entry: LibraryEntry = {
+        ...unsavedEntry,
+        pageCount: readingPages.length,
+        diagnostics: bookDiagnostics,
+        settings: currentSettings()
+      };
+      addBook(entry, pages).catch(error => {
+        console.error("Error saving book to library:", error);
+        alert("This book could not be saved to your library, so it will be gone after a reload.");
+      });
+      savedPagesRef.current = { bookId, pages: pages.map(toStoredPage) };
+      return;
+    }
+    // Just opened from the library: the pages are what was saved
+    if (savedPagesRef.current?.bookId !== bookId) {
+      savedPagesRef.current = { bookId, pages: pages.map(toStoredPage) };
+      return;
+    }
+    if (!haveStoredPagesChanged(savedPagesRef.current.pages, pages)) return;
+
+    const pageCount = readingPages.length;
+    const save = () => {
+      // Already flushed early
+      if (pendingSaveRef.current !== save) return;
+      pendingSaveRef.current = null;
+      savedPagesRef.current = { bookId, pages: pages.map(toStoredPage) };
+      saveBookPages(bookId, pages)
+        .then(() => updateBook(bookId, { pageCount }))
+        .catch(error => console.warn("Error saving pages:", error));
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, PAGE_SAVE_DELAY);
+    return () => {
+      clearTimeout(timer);
+      if (pendingSaveRef.current === save) pendingSaveRef.current = null;
+    };
+  }, [bookId, pages, readingPages.length, bindingProgress]);
+
   const handlePrev = () => {
     setSpreadIndex(curr => Math.max(0, curr - 1));
   };
@@ -64,11 +492,184 @@ const App: React.FC = () => {
     setSpreadIndex(curr => Math.min(totalSpreads() - 1, curr + 1));
   };
 
-  const handleReset = () => {
+  const closeBook = () => {
+    // Edits still waiting to be saved go in now, before the pages are let go
+    pendingSaveRef.current?.();
     // Revoke old URLs to prevent memory leaks
-    pages.forEach(p => URL.revokeObjectURL(p.url));
+    pagesRef.current.forEach(revokePageUrls);
+    // Stop whatever is still being processed
+    bindingRef.current?.abort();
+    bindingRef.current = null;
+    setBindingProgress(null);
+    setUnsavedEntry(null);
+    setIsLoading(false);
+    // The book stays in the library; we only close it
+    setBookId(null);
+    setBookTitle(undefined);
+    setOpenBookId(null);
+    refreshLibrary();
     setPages([]);
+    setMetadata({});
     setSpreadIndex(0);
+    setIsOrganizerOpen(false);
+    setIsRedactionPanelOpen(false);
+    setIsLayersPanelOpen(false);
+    setIsDiagnosticsOpen(false);
+    setBookDiagnostics([]);
+    // Layers belong to the book; redaction choices last for the session
+    setRedactionPolicy(prev => ({ ...prev, hiddenLayers: [] }));
+    setRevealMode('off');
+    setZoom(MIN_ZOOM);
+    setInspectedPageId(null);
+    setIsOverviewOpen(false);
+    closeAnnotations();
+    setShowAnnotations(true);
+    closeSearch();
+    setIsContentsOpen(false);
+  };
+
+  const zoomBy = (factor: number) => {
+    setZoom(z => clampZoom(z * factor, MIN_ZOOM, MAX_ZOOM));
+  };
+
+  const handleSearchQueryChange = (query: string) => {
+    setSearchQuery(query);
+    setActiveHit(null);
+  };
+
+  const handleSelectHit = (hit: SearchHit) => {
+    setActiveHit(hit);
+    setSpreadIndex(getSpreadIndexForPage(readingPages, hit.pageIndex, hasCover, useSpacer, layoutMode));
+  };
+
+  const handleSelectPage = (page: ProcessedPage) => {
+    const pageIndex = readingPages.findIndex(p => p.id === page.id);
+    if (pageIndex >= 0) setSpreadIndex(getSpreadIndexForPage(readingPages, pageIndex, hasCover, useSpacer, layoutMode));
+  };
+
+  const openSearch = () => {
+    setIsSearchOpen(true);
+    setIsContentsOpen(false);
+  };
+
+  const openContents = () => {
+    setIsContentsOpen(true);
+    closeSearch();
+  };
+
+  const handleSelectContentsPage = (pageIndex: number) => {
+    setSpreadIndex(getSpreadIndexForPage(readingPages, pageIndex, hasCover, useSpacer, layoutMode));
+  };
+
+  const setBookmark = (pageId: string, bookmark: Bookmark | undefined) => {
+    setPages(curr => curr.map(p => p.id === pageId ? { ...p, bookmark } : p));
+  };
+
+  const handleToggleBookmark = () => {
+    if (!bookmarkPage) return;
+    if (bookmarkPage.bookmark) {
+      setBookmark(bookmarkPage.id, undefined);
+      return;
+    }
+    const label = prompt("Label for this bookmark (optional):", currentEntry?.title ?? '');
+    if (label === null) return;
+    setBookmark(bookmarkPage.id, { label: label.trim() || undefined, createdAt: Date.now() });
+  };
+
+  const handleRenameBookmark = (pageId: string, label: string) => {
+    setPages(curr => curr.map(p => p.id === pageId && p.bookmark ? { ...p, bookmark: { ...p.bookmark, label: label || undefined } } : p));
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setSearchQuery('');
+    setActiveHit(null);
+  };
+
+  const closeOverview = useCallback(() => setIsOverviewOpen(false), []);
+
+  const openAnnotations = () => {
+    setIsAnnotationsOpen(true);
+    setIsOrganizerOpen(false);
+  };
+
+  // Drawing tools only make sense with the panel open, where the new thread's comment is typed
+  const closeAnnotations = () => {
+    setIsAnnotationsOpen(false);
+    setAnnotationTool(null);
+    setActiveAnnotationId(null);
+  };
+
+  const handleAddAnnotation = (page: ProcessedPage, shape: AnnotationShape) => {
+    const annotation = createAnnotation(shape);
+    setPages(curr => updatePageAnnotations(curr, page.id, list => [...list, annotation]));
+    setActiveAnnotationId(annotation.id);
+  };
+
+  const handleSelectAnnotation = (page: ProcessedPage, annotation: Annotation) => {
+    setActiveAnnotationId(annotation.id);
+    setShowAnnotations(true);
+    openAnnotations();
+    handleSelectPage(page);
+  };
+
+  const changeAnnotation = (pageId: string, annotationId: string, change: (annotation: Annotation) => Annotation) => {
+    setPages(curr => updatePageAnnotations(curr, pageId, list => list.map(a => a.id === annotationId ? change(a) : a)));
+  };
+
+  const handleDeleteAnnotation = (pageId: string, annotationId: string) => {
+    setPages(curr => updatePageAnnotations(curr, pageId, list => list.filter(a => a.id !== annotationId)));
+    if (activeAnnotationId === annotationId) setActiveAnnotationId(null);
+  };
+
+  const handleImportAnnotations = async (file: File) => {
+    try {
+      const { pages: next, unmatchedNames } = importAnnotations(pages, parseAnnotationsFile(await file.text()));
+      setPages(next);
+      setShowAnnotations(true);
+      if (unmatchedNames.length > 0) {
+        alert(`No page in this book is named ${unmatchedNames.map(n => `"${n}"`).join(', ')}, so the annotations on ${unmatchedNames.length === 1 ? 'it were' : 'them were'} not imported.`);
+      }
+    } catch (error) {
+      console.error("Error importing annotations:", error);
+      alert(error instanceof AnnotationsFileError ? error.message : "Failed to import annotations.");
+    }
+  };
+
+  const cycleRevealMode = () => {
+    setRevealMode(prev => prev === 'off' ? 'highlight' : prev === 'highlight' ? 'reveal' : 'off');
+  };
+
+  // Re-render every page from its kept source; the files don't need to be dropped again
+  const handleRedactionPolicyChange = (policy: RedactionPolicy) => {
+    const next = pages.map(p => rerenderPage(p, policy));
+    pages.forEach((p, i) => {
+      if (next[i].url !== p.url) URL.revokeObjectURL(p.url);
+    });
+    setRedactionPolicy(policy);
+    setPages(next);
+  };
+
+  const handleMovePage = (from: number, to: number) => {
+    setPages(curr => movePage(curr, from, to));
+  };
+
+  const handleToggleHidden = (id: string) => {
+    setPages(curr => curr.map(p => p.id === id ? { ...p, hidden: !p.hidden } : p));
+  };
+
+  const handleDeletePage = (id: string) => {
+    const page = pages.find(p => p.id === id);
+    if (page) revokePageUrls(page);
+    setPages(curr => curr.filter(p => p.id !== id));
+  };
+
+  const handleInsertBlank = (afterIndex: number) => {
+    setPages(curr => {
+      const next = [...curr];
+      next.splice(afterIndex + 1, 0, createBlankPage(curr[afterIndex]));
+      return next;
+    });
   };
 
   const toggleCover = () => {
@@ -81,18 +682,119 @@ const App: React.FC = () => {
     // Try to stay on the same visual spread, though exact mapping is tricky
   };
 
+  const handleExport = async () => {
+    if (bindingProgress) {
+      alert("Some pages are still being processed. Try exporting again once they are done.");
+      return;
+    }
+    setIsExporting(true);
+    try {
+      await exportBookToPdf(readingPages, hasCover, useSpacer, { ...metadata, direction });
+    } catch (error) {
+      console.error("Error exporting PDF:", error);
+      alert("Failed to export the book as PDF.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Go to a linked page in the open book, taking on the layout the link asks for
+  const showLocation = (location: ReaderLocation) => {
+    const mode = location.readingMode ?? readingMode;
+    const cover = location.hasCover ?? hasCover;
+    const spacer = location.useSpacer ?? useSpacer;
+    const pageIndex = location.pageIndex !== undefined
+      ? findReadingPosition(readingPages, location.pageIndex)
+      : getPageIndexForSpread(readingPages, spreadIndex, hasCover, useSpacer, layoutMode);
+    setReadingMode(mode);
+    setHasCover(cover);
+    setUseSpacer(spacer);
+    setSpreadIndex(getSpreadIndexForPage(readingPages, pageIndex, cover, spacer, getLayoutMode(mode, isPortrait)));
+  };
+
+  // Switch layouts without losing our place: go through the page index
+  const changeReadingMode = (mode: ReadingMode) => {
+    setReadingMode(mode);
+    setZoom(MIN_ZOOM);
+    setSpreadIndex(convertSpreadIndex(readingPages, spreadIndex, hasCover, useSpacer, layoutMode, getLayoutMode(mode, isPortrait)));
+  };
+
+  // Follow the screen's orientation, keeping our place the same way as when switching modes.
+  // The position is converted in the same update as the layout, so keeping it in range never sees it in the old layout's units.
+  const layoutRef = useRef({ readingPages, hasCover, useSpacer, readingMode });
+  useEffect(() => {
+    layoutRef.current = { readingPages, hasCover, useSpacer, readingMode };
+  });
+
+  useEffect(() => {
+    const query = window.matchMedia(PORTRAIT_QUERY);
+    const handleChange = () => {
+      setIsPortrait(query.matches);
+      // Only spreads change layout with the orientation; changeReadingMode and showBook convert the index themselves
+      const { readingPages, hasCover, useSpacer, readingMode } = layoutRef.current;
+      if (readingMode !== 'spread') return;
+      const [from, to]: ReadingMode[] = query.matches ? ['spread', 'single'] : ['single', 'spread'];
+      setSpreadIndex(curr => convertSpreadIndex(readingPages, curr, hasCover, useSpacer, from, to));
+    };
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowRight' || e.key === ' ') {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'f' && pages.length > 0) {
+        e.preventDefault();
+        openSearch();
+        return;
+      }
+      // Leave typing in text fields alone, and let the inspector handle its own keys
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (inspectedPage || isOverviewOpen) return;
+
+      if (e.key === 'Escape' && annotationTool) {
+        setAnnotationTool(null);
+        return;
+      }
+
+      if (e.key === '+' || e.key === '=') {
+        zoomBy(ZOOM_STEP);
+        return;
+      } else if (e.key === '-') {
+        zoomBy(1 / ZOOM_STEP);
+        return;
+      } else if (e.key === '0') {
+        setZoom(MIN_ZOOM);
+        return;
+      }
+
+      // Arrows follow the binding: in a right-to-left book the next page is to the left
+      const forwardKey = direction === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+      const backKey = direction === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+
+      // Space scrolls natively in scroll mode
+      if (e.key === forwardKey || (e.key === ' ' && layoutMode !== 'scroll')) {
         handleNext();
-      } else if (e.key === 'ArrowLeft') {
+      } else if (e.key === backKey) {
         handlePrev();
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [totalSpreads]); // Re-bind if total spreads calc changes logic
+  }, [totalSpreads, pages.length, layoutMode, direction, inspectedPage, isOverviewOpen, annotationTool]); // Re-bind if total spreads calc changes logic
+
+  // Overlays drawn on every page, whichever reader shows it
+  const pageContentProps: Omit<PageContentProps, 'page'> = {
+    revealMode,
+    redactionPolicy,
+    searchHits,
+    activeHit,
+    annotationTool,
+    showAnnotations,
+    activeAnnotationId,
+    onAddAnnotation: handleAddAnnotation,
+    onSelectAnnotation: handleSelectAnnotation
+  };
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-stone-200 relative overflow-hidden">
@@ -105,48 +807,209 @@ const App: React.FC = () => {
         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[800px] h-[800px] bg-purple-300/20 blur-[120px] rounded-full pointer-events-none" />
       )}
 
-      {/* Main Content Area */}
-      <div className="w-full h-full flex flex-col items-center justify-center z-0 p-4">
+      {/* Main Content Area; lifted clear of the filmstrip while it is open */}
+      <div
+        className="w-full h-full flex flex-col items-center justify-center z-0 p-4"
+        style={isFilmstripOpen && pages.length > 0 ? { paddingBottom: FILMSTRIP_HEIGHT } : undefined}
+      >
         
-        {isLoading && (
+        {isLoading && bindingProgress && (
+          <BindingStatus progress={bindingProgress} onCancel={closeBook} />
+        )}
+
+        {isLoading && !bindingProgress && (
           <div className="flex flex-col items-center justify-center space-y-4 animate-in fade-in zoom-in duration-300">
             <Loader2 className="animate-spin text-purple-600" size={48} />
             <p className="text-stone-600 font-medium">Binding your book...</p>
           </div>
         )}
 
+        {/* Landing page; it scrolls on its own once the library outgrows the screen, and is only centred while it fits */}
         {!isLoading && pages.length === 0 && (
-          <div className="flex flex-col items-center w-full max-w-4xl">
-            {/* Header */}
-            <div className="text-center z-10 px-4 mb-12 sm:mb-16 animate-in fade-in slide-in-from-bottom-4 duration-700">
-              <h1 className="text-5xl sm:text-7xl font-['DM_Serif_Display'] text-stone-900 tracking-tight mb-4 drop-shadow-sm">
-                <span className="text-stone-800">LivreMêlé</span> <span className="text-purple-700">Débrouilleur</span>
-              </h1>
-              <p className="text-lg text-stone-500 font-light tracking-wide max-w-lg mx-auto leading-relaxed">
-                Visualise your SVG collections as a book
-              </p>
-            </div>
+          <div className="absolute inset-0 overflow-y-auto">
+            <div className="min-h-full flex flex-col items-center justify-center px-4 py-12">
+              <div className="flex flex-col items-center w-full max-w-4xl">
+                {/* Header */}
+                <div className="text-center z-10 px-4 mb-12 sm:mb-16 animate-in fade-in slide-in-from-bottom-4 duration-700">
+                  <h1 className="text-5xl sm:text-7xl font-['DM_Serif_Display'] text-stone-900 tracking-tight mb-4 drop-shadow-sm">
+                    <span className="text-stone-800">LivreMêlé</span> <span className="text-purple-700">Débrouilleur</span>
+                  </h1>
+                  <p className="text-lg text-stone-500 font-light tracking-wide max-w-lg mx-auto leading-relaxed">
+                    Visualise your SVG collections as a book
+                  </p>
+                </div>
 
-            <div className="w-full max-w-2xl relative animate-in fade-in slide-in-from-bottom-8 duration-700 delay-150">
-              <DropZone 
-                onFilesLoaded={handleFilesLoaded} 
-                onLoadingStart={() => setIsLoading(true)} 
-              />
+                <div className="w-full max-w-2xl relative animate-in fade-in slide-in-from-bottom-8 duration-700 delay-150">
+                  <DropZone 
+                    onFilesSelected={bindBook}
+                  />
+                </div>
+
+                <Library
+                  books={library}
+                  onOpenBook={handleOpenBook}
+                  onRenameBook={(id, title) => changeLibraryEntry(id, { title })}
+                  onMoveBook={(id, shelf) => changeLibraryEntry(id, { shelf })}
+                  onDeleteBook={handleDeleteBook}
+                />
+              </div>
             </div>
           </div>
         )}
 
-        {!isLoading && pages.length > 0 && (
+        {!isLoading && pages.length > 0 && layoutMode === 'scroll' && (
+          <ScrollReader
+            pages={readingPages}
+            pageIndex={spreadIndex}
+            onPageChange={setSpreadIndex}
+            zoom={zoom}
+            minZoom={MIN_ZOOM}
+            maxZoom={MAX_ZOOM}
+            onZoomChange={setZoom}
+            onInspectPage={page => setInspectedPageId(page.id)}
+            reservedHeight={isFilmstripOpen ? FILMSTRIP_HEIGHT : 0}
+            {...pageContentProps}
+          />
+        )}
+
+        {!isLoading && pages.length > 0 && layoutMode !== 'scroll' && (
           <BookReader 
-            pages={pages} 
+            pages={readingPages} 
             spreadIndex={spreadIndex} 
+            onSpreadChange={setSpreadIndex}
             hasCover={hasCover} 
             useSpacer={useSpacer}
+            readingMode={layoutMode}
+            direction={direction}
+            zoom={zoom}
+            minZoom={MIN_ZOOM}
+            maxZoom={MAX_ZOOM}
+            onZoomChange={setZoom}
+            onInspectPage={page => setInspectedPageId(page.id)}
+            reservedHeight={isFilmstripOpen ? FILMSTRIP_HEIGHT : 0}
+            {...pageContentProps}
           />
         )}
 
       </div>
 
+      {isFilmstripOpen && !isLoading && pages.length > 0 && (
+        <Filmstrip
+          spreads={spreadPages}
+          currentIndex={spreadIndex}
+          direction={direction}
+          onSelect={setSpreadIndex}
+        />
+      )}
+
+      {isOverviewOpen && pages.length > 0 && (
+        <PageGrid
+          spreads={spreadPages}
+          currentIndex={spreadIndex}
+          direction={direction}
+          onSelect={setSpreadIndex}
+          onClose={closeOverview}
+        />
+      )}
+
+      {isOrganizerOpen && pages.length > 0 && (
+        <PageOrganizer
+          pages={pages}
+          onMovePage={handleMovePage}
+          onToggleHidden={handleToggleHidden}
+          onDeletePage={handleDeletePage}
+          onInsertBlank={handleInsertBlank}
+          onClose={() => setIsOrganizerOpen(false)}
+        />
+      )}
+
+      {isRedactionPanelOpen && redactionTags.length > 0 && (
+        <RedactionPanel
+          tags={redactionTags}
+          policy={redactionPolicy}
+          onChange={handleRedactionPolicyChange}
+          onClose={() => setIsRedactionPanelOpen(false)}
+        />
+      )}
+
+      {isLayersPanelOpen && layers.length > 0 && (
+        <LayersPanel
+          layers={layers}
+          hiddenLayers={redactionPolicy.hiddenLayers}
+          defaultHiddenLayers={metadata.hiddenLayers ?? []}
+          onChange={(hiddenLayers) => handleRedactionPolicyChange({ ...redactionPolicy, hiddenLayers })}
+          onClose={() => setIsLayersPanelOpen(false)}
+        />
+      )}
+
+      {isDiagnosticsOpen && pages.length > 0 && (
+        <DiagnosticsPanel
+          pages={pages}
+          bookDiagnostics={bookDiagnostics}
+          currentPageIds={currentPageIds}
+          onSelectPage={handleSelectPage}
+          onClose={() => setIsDiagnosticsOpen(false)}
+        />
+      )}
+
+      {isSearchOpen && pages.length > 0 && (
+        <SearchPanel
+          query={searchQuery}
+          onQueryChange={handleSearchQueryChange}
+          hits={searchHits}
+          activeHit={activeHit}
+          pages={readingPages}
+          onSelectHit={handleSelectHit}
+          onClose={closeSearch}
+        />
+      )}
+
+      {isContentsOpen && pages.length > 0 && (
+        <ContentsPanel
+          contents={contents}
+          currentEntry={currentEntry}
+          pages={readingPages}
+          onSelectPage={handleSelectContentsPage}
+          onRenameBookmark={handleRenameBookmark}
+          onRemoveBookmark={(pageId) => setBookmark(pageId, undefined)}
+          onClose={() => setIsContentsOpen(false)}
+        />
+      )}
+
+      {isAnnotationsOpen && pages.length > 0 && (
+        <AnnotationsPanel
+          pages={pages}
+          activeAnnotationId={activeAnnotationId}
+          annotationTool={annotationTool}
+          onChangeTool={(tool) => {
+            setAnnotationTool(tool);
+            if (tool) setShowAnnotations(true);
+          }}
+          showAnnotations={showAnnotations}
+          onToggleShowAnnotations={() => setShowAnnotations(prev => !prev)}
+          onSelectAnnotation={handleSelectAnnotation}
+          onAddComment={(pageId, annotationId, comment) => changeAnnotation(pageId, annotationId, a => ({ ...a, comments: [...a.comments, comment] }))}
+          onToggleResolved={(pageId, annotationId) => changeAnnotation(pageId, annotationId, a => ({ ...a, resolved: !a.resolved || undefined }))}
+          onDeleteAnnotation={handleDeleteAnnotation}
+          onExport={() => downloadAnnotations(pages, bookTitle ?? '')}
+          onImport={handleImportAnnotations}
+          onClose={closeAnnotations}
+        />
+      )}
+
+      {inspectedPage && (
+        <PageInspector
+          page={inspectedPage}
+          onClose={() => setInspectedPageId(null)}
+          {...pageContentProps}
+        />
+      )}
+
+      {/* Pages still being processed */}
+      {bindingProgress && !isLoading && (
+        <BindingStatus progress={bindingProgress} onCancel={closeBook} compact />
+      )}
+
       {/* Footer Controls */}
       <Controls 
         hasPages={pages.length > 0}
@@ -154,12 +1017,66 @@ const App: React.FC = () => {
         canGoNext={spreadIndex < totalSpreads() - 1}
         onPrev={handlePrev}
         onNext={handleNext}
-        onReset={handleReset}
+        onReset={closeBook}
         hasCover={hasCover}
         onToggleCover={toggleCover}
         useSpacer={useSpacer}
         onToggleSpacer={toggleSpacer}
+        readingMode={readingMode}
+        onChangeReadingMode={changeReadingMode}
+        direction={direction}
+        onToggleDirection={() => setDirection(prev => prev === 'rtl' ? 'ltr' : 'rtl')}
+        onExport={handleExport}
+        isExporting={isExporting}
+        isOrganizerOpen={isOrganizerOpen}
+        onToggleOrganizer={() => {
+          setIsOrganizerOpen(prev => !prev);
+          closeAnnotations();
+        }}
+        hasRedactions={redactionTags.length > 0}
+        isRedactionPanelOpen={isRedactionPanelOpen}
+        onToggleRedactionPanel={() => {
+          setIsRedactionPanelOpen(prev => !prev);
+          setIsLayersPanelOpen(false);
+          setIsDiagnosticsOpen(false);
+        }}
+        diagnosticCount={diagnosticCount}
+        isDiagnosticsOpen={isDiagnosticsOpen}
+        onToggleDiagnostics={() => {
+          setIsDiagnosticsOpen(prev => !prev);
+          setIsRedactionPanelOpen(false);
+          setIsLayersPanelOpen(false);
+        }}
+        hasLayers={layers.length > 0}
+        hiddenLayerCount={layers.filter(l => redactionPolicy.hiddenLayers.includes(l.tag)).length}
+        isLayersPanelOpen={isLayersPanelOpen}
+        onToggleLayersPanel={() => {
+          setIsLayersPanelOpen(prev => !prev);
+          setIsRedactionPanelOpen(false);
+          setIsDiagnosticsOpen(false);
+        }}
+        revealMode={revealMode}
+        onCycleRevealMode={cycleRevealMode}
+        isSearchOpen={isSearchOpen}
+        onToggleSearch={() => isSearchOpen ? closeSearch() : openSearch()}
+        isContentsOpen={isContentsOpen}
+        onToggleContents={() => isContentsOpen ? setIsContentsOpen(false) : openContents()}
+        isBookmarked={!!bookmarkPage?.bookmark}
+        onToggleBookmark={handleToggleBookmark}
+        annotationCount={annotationCount}
+        isAnnotationsOpen={isAnnotationsOpen}
+        onToggleAnnotations={() => isAnnotationsOpen ? closeAnnotations() : openAnnotations()}
+        zoom={zoom}
+        canZoomIn={zoom < MAX_ZOOM}
+        canZoomOut={zoom > MIN_ZOOM}
+        onZoomIn={() => zoomBy(ZOOM_STEP)}
+        onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+        onZoomReset={() => setZoom(MIN_ZOOM)}
+        isFilmstripOpen={isFilmstripOpen}
+        onToggleFilmstrip={() => setIsFilmstripOpen(prev => !prev)}
+        onOpenOverview={() => setIsOverviewOpen(true)}
         currentPageInfo={`${spreadIndex + 1} / ${Math.max(1, totalSpreads())}`}
+        currentChapter={currentEntry?.title ?? null}
       />
     </div>
   );
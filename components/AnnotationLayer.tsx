@@ -0,0 +1,173 @@
+import React, { useRef, useState } from 'react';
+import { Annotation, AnnotationShape, AnnotationTool, ProcessedPage } from '../types';
+import { PageOverlay, getOverlayUnit } from './PageOverlay';
+import { boxFromCorners, getAnchor, toViewBoxPoint } from '../utils/annotationUtils';
+
+export interface AnnotationLayerProps {
+  page: ProcessedPage;
+  annotationTool: AnnotationTool | null; // What dragging on the page draws; null leaves the pointer to the reader
+  showAnnotations: boolean;
+  activeAnnotationId: string | null;
+  onAddAnnotation: (page: ProcessedPage, shape: AnnotationShape) => void;
+  onSelectAnnotation: (page: ProcessedPage, annotation: Annotation) => void;
+}
+
+const COLOR = 'rgb(147, 51, 234)';
+const RESOLVED_COLOR = 'rgb(120, 113, 108)';
+
+// Events the reader underneath would take as page turns, pans or taps
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+const ShapeMark: React.FC<{ shape: AnnotationShape; unit: number; color: string; isActive: boolean }> = ({ shape, unit, color, isActive }) => {
+  if (shape.kind === 'rect') {
+    return (
+      <rect
+        x={shape.x}
+        y={shape.y}
+        width={shape.width}
+        height={shape.height}
+        fill={color}
+        fillOpacity={isActive ? 0.25 : 0.12}
+        stroke={color}
+        strokeWidth={isActive ? unit : unit / 2}
+      />
+    );
+  }
+  if (shape.kind === 'freehand') {
+    return (
+      <polyline
+        points={shape.points.map(p => p.join(',')).join(' ')}
+        fill="none"
+        stroke={color}
+        strokeOpacity={isActive ? 0.8 : 0.55}
+        strokeWidth={unit * 1.5}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    );
+  }
+  return null;
+};
+
+/**
+ * Review annotations on a page: highlights and a numbered marker per thread, plus drawing new ones with the chosen tool.
+ * Everything is kept in the page's viewBox units, so marks stay put at any zoom.
+ */
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  page,
+  annotationTool,
+  showAnnotations,
+  activeAnnotationId,
+  onAddAnnotation,
+  onSelectAnnotation
+}) => {
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const startRef = useRef<[number, number] | null>(null);
+  const unit = getOverlayUnit(page);
+
+  const annotations = showAnnotations ? page.annotations ?? [] : [];
+  if (!annotationTool && annotations.length === 0) return null;
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.stopPropagation();
+    if (e.button !== 0 || !annotationTool) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toViewBoxPoint(e.currentTarget, e.clientX, e.clientY);
+    startRef.current = point;
+    setDraft(
+      annotationTool === 'pin' ? { kind: 'pin', x: point[0], y: point[1] } :
+      annotationTool === 'rect' ? { kind: 'rect', ...boxFromCorners(point, point) } :
+      { kind: 'freehand', points: [point] }
+    );
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.stopPropagation();
+    const start = startRef.current;
+    if (!start || !draft) return;
+    const point = toViewBoxPoint(e.currentTarget, e.clientX, e.clientY);
+    if (draft.kind === 'rect') {
+      setDraft({ kind: 'rect', ...boxFromCorners(start, point) });
+    } else if (draft.kind === 'freehand') {
+      // Skip points closer than a unit to the last one; they only add weight
+      const [lx, ly] = draft.points[draft.points.length - 1];
+      if (Math.hypot(point[0] - lx, point[1] - ly) >= unit) setDraft({ kind: 'freehand', points: [...draft.points, point] });
+    } else {
+      setDraft({ kind: 'pin', x: point[0], y: point[1] });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>, cancelled = false) => {
+    e.stopPropagation();
+    const shape = draft;
+    startRef.current = null;
+    setDraft(null);
+    if (cancelled || !shape) return;
+    // A click with the rectangle or pen is a slip, not a highlight
+    const isTooSmall =
+      shape.kind === 'rect' ? shape.width < unit * 2 || shape.height < unit * 2 :
+      shape.kind === 'freehand' ? shape.points.length < 2 : false;
+    if (!isTooSmall) onAddAnnotation(page, shape);
+  };
+
+  const drawingProps: React.SVGProps<SVGSVGElement> | undefined = annotationTool ? {
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: (e) => handlePointerUp(e),
+    onPointerCancel: (e) => handlePointerUp(e, true),
+    onClick: stop,
+    onDoubleClick: stop
+  } : undefined;
+
+  return (
+    <PageOverlay page={page} drawingProps={drawingProps}>
+      {() => (
+        <>
+          {annotations.map((annotation, i) => {
+            const isActive = annotation.id === activeAnnotationId;
+            const color = annotation.resolved ? RESOLVED_COLOR : COLOR;
+            const [x, y] = getAnchor(annotation.shape);
+            return (
+              <g
+                key={annotation.id}
+                className={annotationTool ? undefined : 'cursor-pointer'}
+                style={{ pointerEvents: annotationTool ? 'none' : 'visiblePainted' }}
+                onPointerDown={stop}
+                onPointerUp={stop}
+                onDoubleClick={stop}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelectAnnotation(page, annotation);
+                }}
+              >
+                <title>{annotation.comments[0]?.text || 'Annotation'}</title>
+                <ShapeMark shape={annotation.shape} unit={unit} color={color} isActive={isActive} />
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={unit * 5}
+                  fill={color}
+                  stroke="white"
+                  strokeWidth={isActive ? unit * 1.5 : unit / 2}
+                />
+                <text
+                  x={x}
+                  y={y}
+                  fill="white"
+                  fontSize={unit * 6}
+                  fontFamily="sans-serif"
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                >
+                  {i + 1}
+                </text>
+              </g>
+            );
+          })}
+          {draft && <ShapeMark shape={draft} unit={unit} color={COLOR} isActive />}
+          {draft?.kind === 'pin' && <circle cx={draft.x} cy={draft.y} r={unit * 5} fill={COLOR} fillOpacity={0.6} />}
+        </>
+      )}
+    </PageOverlay>
+  );
+};
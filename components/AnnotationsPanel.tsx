@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, MapPin, Square, PenLine, Eye, EyeOff, Download, Upload, Check, Trash2, MessageSquare } from 'lucide-react';
+import { Annotation, AnnotationComment, AnnotationTool, ProcessedPage } from '../types';
+import { createComment, listAnnotations } from '../utils/annotationUtils';
+
+interface AnnotationsPanelProps {
+  pages: ProcessedPage[]; // Every page, hidden ones included
+  activeAnnotationId: string | null;
+  annotationTool: AnnotationTool | null;
+  onChangeTool: (tool: AnnotationTool | null) => void;
+  showAnnotations: boolean;
+  onToggleShowAnnotations: () => void;
+  onSelectAnnotation: (page: ProcessedPage, annotation: Annotation) => void;
+  onAddComment: (pageId: string, annotationId: string, comment: AnnotationComment) => void;
+  onToggleResolved: (pageId: string, annotationId: string) => void;
+  onDeleteAnnotation: (pageId: string, annotationId: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const REVIEWER_KEY = 'livre-mele:reviewer';
+
+const TOOLS: { tool: AnnotationTool; label: string; Icon: typeof MapPin }[] = [
+  { tool: 'pin', label: "Pin a comment", Icon: MapPin },
+  { tool: 'rect', label: "Highlight an area", Icon: Square },
+  { tool: 'freehand', label: "Draw freehand", Icon: PenLine }
+];
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+interface ThreadProps {
+  page: ProcessedPage;
+  annotation: Annotation;
+  number: number;
+  isActive: boolean;
+  reviewer: string;
+  onSelect: () => void;
+  onAddComment: (comment: AnnotationComment) => void;
+  onToggleResolved: () => void;
+  onDelete: () => void;
+}
+
+const Thread: React.FC<ThreadProps> = ({ page, annotation, number, isActive, reviewer, onSelect, onAddComment, onToggleResolved, onDelete }) => {
+  const [draft, setDraft] = useState('');
+  const ref = useRef<HTMLLIElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Bring the selected thread into view; a new one has nothing to read yet, so start typing its first comment
+  useEffect(() => {
+    if (!isActive) return;
+    ref.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    if (annotation.comments.length === 0) inputRef.current?.focus();
+  }, [isActive]);
+
+  const submit = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onAddComment(createComment(text, reviewer.trim()));
+    setDraft('');
+  };
+
+  return (
+    <li
+      ref={ref}
+      className={`
+        rounded-lg border transition-colors
+        ${isActive ? 'border-purple-500/60 bg-stone-800' : 'border-white/5 bg-stone-800/40'}
+        ${annotation.resolved ? 'opacity-60' : ''}
+      `}
+    >
+      <div className="flex items-center gap-2 px-2 py-1.5">
+        <button
+          onClick={onSelect}
+          disabled={page.hidden}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left text-xs text-stone-300 enabled:hover:text-white"
+          title={page.hidden ? "This page is hidden" : "Go to page"}
+        >
+          <span className={`shrink-0 w-5 h-5 rounded-full flex items-center justify-center text-white font-mono ${annotation.resolved ? 'bg-stone-500' : 'bg-purple-600'}`}>
+            {number}
+          </span>
+          <span className="font-mono truncate">{page.label ?? page.name}</span>
+          {page.hidden && <span className="text-stone-500">hidden</span>}
+        </button>
+        <button
+          onClick={onToggleResolved}
+          className={`p-1 rounded transition-colors ${annotation.resolved ? 'text-green-400 hover:bg-stone-700' : 'text-stone-500 hover:text-green-400 hover:bg-stone-700'}`}
+          title={annotation.resolved ? "Reopen" : "Resolve"}
+        >
+          <Check size={14} />
+        </button>
+        <button
+          onClick={() => {
+            if (annotation.comments.length === 0 || confirm("Delete this annotation and its comments?")) onDelete();
+          }}
+          className="p-1 rounded text-stone-500 hover:text-red-400 hover:bg-stone-700 transition-colors"
+          title="Delete"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {annotation.comments.length > 0 && (
+        <ul className="px-3 pb-1 space-y-2">
+          {annotation.comments.map(comment => (
+            <li key={comment.id} className="text-sm">
+              <p className="text-xs text-stone-500">
+                {comment.author && <span className="text-stone-300 font-medium">{comment.author} · </span>}
+                {formatTime(comment.createdAt)}
+              </p>
+              <p className="text-stone-200 whitespace-pre-wrap break-words">{comment.text}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(isActive || annotation.comments.length === 0) && (
+        <textarea
+          ref={inputRef}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends, Shift+Enter starts a new line
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          rows={2}
+          placeholder={annotation.comments.length === 0 ? "Add a comment" : "Reply"}
+          className="block w-[calc(100%-1rem)] m-2 mt-1 px-2 py-1 rounded-md bg-stone-900/80 border border-white/10 text-sm outline-none focus:border-purple-500/60 placeholder:text-stone-500 resize-none"
+        />
+      )}
+    </li>
+  );
+};
+
+/**
+ * The book's review threads, page by page, with the tools to add more and to share them as a file.
+ */
+export const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({
+  pages,
+  activeAnnotationId,
+  annotationTool,
+  onChangeTool,
+  showAnnotations,
+  onToggleShowAnnotations,
+  onSelectAnnotation,
+  onAddComment,
+  onToggleResolved,
+  onDeleteAnnotation,
+  onExport,
+  onImport,
+  onClose
+}) => {
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_KEY) ?? '');
+  const [showResolved, setShowResolved] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const threads = listAnnotations(pages);
+  const shownThreads = showResolved ? threads : threads.filter(t => !t.annotation.resolved || t.annotation.id === activeAnnotationId);
+  const resolvedCount = threads.filter(t => t.annotation.resolved).length;
+
+  const changeReviewer = (name: string) => {
+    setReviewer(name);
+    localStorage.setItem(REVIEWER_KEY, name);
+  };
+
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 w-80 max-w-[90vw] bg-stone-900/95 backdrop-blur-md text-stone-100 shadow-2xl z-50 flex flex-col border-l border-white/10 animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-medium">Annotations</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onExport}
+            disabled={threads.length === 0}
+            className="p-2 rounded-lg transition-colors text-stone-400 enabled:hover:bg-stone-700 enabled:hover:text-white disabled:text-stone-600"
+            title="Export annotations as JSON"
+          >
+            <Download size={18} />
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+            title="Import annotations from JSON"
+          >
+            <Upload size={18} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-white/10">
+        <div className="flex items-center bg-stone-800/80 rounded-lg p-0.5">
+          {TOOLS.map(({ tool, label, Icon }) => (
+            <button
+              key={tool}
+              onClick={() => onChangeTool(annotationTool === tool ? null : tool)}
+              className={`
+                p-1.5 rounded-md transition-colors
+                ${annotationTool === tool ? 'bg-purple-600/40 text-purple-100' : 'hover:bg-stone-700 text-stone-400'}
+              `}
+              title={label}
+            >
+              <Icon size={18} />
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onToggleShowAnnotations}
+          className="p-1.5 rounded-md transition-colors hover:bg-stone-700 text-stone-400"
+          title={showAnnotations ? "Hide annotations on the pages" : "Show annotations on the pages"}
+        >
+          {showAnnotations ? <Eye size={18} /> : <EyeOff size={18} />}
+        </button>
+        <input
+          value={reviewer}
+          onChange={(e) => changeReviewer(e.target.value)}
+          placeholder="Your name"
+          className="flex-1 min-w-0 px-2 py-1 rounded-md bg-stone-800/80 text-sm outline-none border border-transparent focus:border-purple-500/60 placeholder:text-stone-500"
+          title="Shown on the comments you add"
+        />
+      </div>
+
+      {annotationTool && (
+        <p className="px-4 py-2 text-xs text-purple-200 bg-purple-600/20 border-b border-white/10">
+          {annotationTool === 'pin' ? "Click a page to pin a comment." : "Drag on a page to mark it."} Pick the tool again to go back to turning pages.
+        </p>
+      )}
+
+      {resolvedCount > 0 && (
+        <label className="flex items-center gap-2 px-4 py-2 text-xs text-stone-400 border-b border-white/10">
+          <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} className="accent-purple-500" />
+          Show resolved ({resolvedCount})
+        </label>
+      )}
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-2">
+        {threads.length === 0 && (
+          <li className="px-2 py-8 flex flex-col items-center gap-2 text-sm text-center text-stone-400">
+            <MessageSquare size={24} className="text-stone-600" />
+            No annotations yet. Pick a tool above and mark up a page.
+          </li>
+        )}
+        {shownThreads.map(({ page, annotation }) => (
+          <Thread
+            key={annotation.id}
+            page={page}
+            annotation={annotation}
+            number={(page.annotations ?? []).indexOf(annotation) + 1}
+            isActive={annotation.id === activeAnnotationId}
+            reviewer={reviewer}
+            onSelect={() => onSelectAnnotation(page, annotation)}
+            onAddComment={(comment) => onAddComment(page.id, annotation.id, comment)}
+            onToggleResolved={() => onToggleResolved(page.id, annotation.id)}
+            onDelete={() => onDeleteAnnotation(page.id, annotation.id)}
+          />
+        ))}
+      </ul>
+    </aside>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { BindingProgress } from '../types';
+import { Loader2, X } from 'lucide-react';
+
+interface BindingStatusProps {
+  progress: BindingProgress;
+  onCancel: () => void;
+  // A small bar over the reader once the book is open, instead of the full loading screen
+  compact?: boolean;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describe = ({ stage, filesFound, assetsRead, pagesDone, pagesTotal }: BindingProgress): string =>
+  stage === 'collecting'
+    ? `Found ${plural(filesFound, 'file')}`
+    : `${pagesDone} / ${plural(pagesTotal, 'page')} · ${plural(assetsRead, 'asset')} read`;
+
+/**
+ * How far binding a dropped book has got, with a way to stop it.
+ * The bar only fills once the pages are known; while files are still being collected it just pulses.
+ */
+export const BindingStatus: React.FC<BindingStatusProps> = ({ progress, onCancel, compact = false }) => {
+  const isCollecting = progress.stage === 'collecting';
+  const bar = (
+    <div className={`${compact ? 'w-24 h-1.5 bg-stone-700' : 'w-64 h-2 bg-stone-300'} rounded-full overflow-hidden`}>
+      <div
+        className={`h-full bg-purple-500 transition-all ${isCollecting ? 'animate-pulse' : ''}`}
+        style={{ width: isCollecting ? '100%' : `${(progress.pagesDone / Math.max(1, progress.pagesTotal)) * 100}%` }}
+      />
+    </div>
+  );
+
+  if (compact) {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 pl-4 pr-2 py-1.5 bg-stone-900/90 backdrop-blur-md text-stone-100 rounded-full shadow-lg text-sm animate-in fade-in slide-in-from-top-4 duration-300">
+        <Loader2 className="animate-spin text-purple-400" size={16} />
+        <span>{describe(progress)}</span>
+        {bar}
+        <button
+          onClick={onCancel}
+          className="p-1 hover:bg-stone-700 rounded-full transition-colors text-stone-400 hover:text-white"
+          title="Stop binding and close the book"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center space-y-4 animate-in fade-in zoom-in duration-300">
+      <Loader2 className="animate-spin text-purple-600" size={48} />
+      <p className="text-stone-600 font-medium">Binding your book...</p>
+      {bar}
+      <p className="text-sm text-stone-500">{describe(progress)}</p>
+      <button
+        onClick={onCancel}
+        className="px-4 py-1.5 rounded-lg text-sm font-medium text-stone-600 border border-stone-300 hover:bg-white/80 hover:text-stone-900 transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
@@ -1,188 +1,419 @@
-import React, { useMemo } from 'react';
-import { ProcessedPage } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BindingDirection, ProcessedPage, ReadingMode, Spread } from '../types';
+import { getAllSpreads } from '../utils/spreadUtils';
+import { PageContent, PageContentProps } from './PageContent';
+import { ZoomViewport } from './ZoomViewport';
 
-interface BookReaderProps {
+interface BookReaderProps extends Omit<PageContentProps, 'page'> {
   pages: ProcessedPage[];
-  spreadIndex: number;
+  spreadIndex: number; // The page index in single-page mode
+  onSpreadChange: (spreadIndex: number) => void; // Called when a drag or swipe turns the page
   hasCover: boolean;
   useSpacer: boolean;
+  readingMode: ReadingMode;
+  direction: BindingDirection;
+  zoom: number; // 1 fits the spread to the screen
+  minZoom: number;
+  maxZoom: number;
+  onZoomChange: (zoom: number) => void;
+  onInspectPage: (page: ProcessedPage) => void;
+  reservedHeight?: number; // Pixels kept free below the book, e.g. for the filmstrip
 }
 
-export const BookReader: React.FC<BookReaderProps> = ({ pages, spreadIndex, hasCover, useSpacer }) => {
-  
-  // Calculate which pages to show based on spreadIndex, cover mode, and spacer alignment
-  const displayedPages = useMemo(() => {
-    if (pages.length === 0) return { left: null, right: null };
-
-    // Cover View (Always Page 0 alone if hasCover is true)
-    if (hasCover && spreadIndex === 0) {
-      return { 
-        left: null, 
-        right: pages[0], 
-        isCoverView: true,
-        leftIsSpacer: false
-      };
-    }
+// A page turn in progress, from one spread to another
+interface Turn {
+  from: number;
+  to: number;
+  progress: number; // 0: the leaf lies where it started, 1: it has been laid down on the other side
+}
 
-    let leftPageIndex = -1;
-    let rightPageIndex = -1;
-    let leftIsSpacer = false;
-
-    // Logic for Content Spreads
-    if (hasCover) {
-      // Content starts at Index 1
-      // If useSpacer: [Spacer, 1], [2, 3]...
-      // If !useSpacer: [1, 2], [3, 4]...
-      
-      const contentSpreadIndex = spreadIndex - 1; // 0-based index relative to content start
-      
-      if (useSpacer) {
-        // Shifted by 1 virtual page (the spacer)
-        // Spread 0 (Content): Left=Spacer (virtual), Right=P1
-        // Spread 1 (Content): Left=P2, Right=P3
-        
-        // Formula for Right Page: P_index = 1 + (spread * 2)
-        // Left Page is Right - 1.
-        
-        rightPageIndex = 1 + (contentSpreadIndex * 2);
-        leftPageIndex = rightPageIndex - 1;
-        
-        // If leftPageIndex points to the cover (0), it means we are at the first content spread
-        // and we want a Spacer instead of the Cover (which is already shown on spread 0).
-        if (leftPageIndex === 0) {
-          leftPageIndex = -1;
-          leftIsSpacer = true;
-        }
-      } else {
-        // Standard flow
-        // Spread 0 (Content): Left=P1, Right=P2
-        leftPageIndex = 1 + (contentSpreadIndex * 2);
-        rightPageIndex = leftPageIndex + 1;
-      }
+// One side of a leaf or spread
+interface Sheet {
+  page: ProcessedPage | null;
+  isSpacer: boolean;
+}
 
-    } else {
-      // No Cover
-      // If useSpacer: [Spacer, 0], [1, 2]...
-      // If !useSpacer: [0, 1], [2, 3]...
-      
-      if (useSpacer) {
-         rightPageIndex = spreadIndex * 2;
-         leftPageIndex = rightPageIndex - 1;
-         
-         if (leftPageIndex < 0) {
-           leftIsSpacer = true;
-         }
-      } else {
-        leftPageIndex = spreadIndex * 2;
-        rightPageIndex = leftPageIndex + 1;
+// Time for a whole turn; a turn resumed part-way takes its share of it
+const TURN_DURATION = 600;
+// Pointer travel before a press becomes a drag, so clicks and double-clicks still work
+const DRAG_THRESHOLD = 8;
+// Release speed (px/ms) that finishes a turn however far it was dragged
+const FLICK_VELOCITY = 0.5;
+// Share of the width at each edge where a tap turns the page
+const TAP_ZONE = 0.2;
+
+const NO_SPREAD: Spread = { left: null, right: null, isCoverView: false, leftIsSpacer: false, isWide: false };
+
+const pageRatio = (page: ProcessedPage | null): number => (page?.width || 595) / (page?.height || 842);
+
+const easeInOut = (t: number) => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+const prefersReducedMotion = () => window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+export const BookReader: React.FC<BookReaderProps> = ({
+  pages, spreadIndex, onSpreadChange, hasCover, useSpacer, readingMode, direction, zoom, minZoom, maxZoom, onZoomChange, onInspectPage, reservedHeight = 0, ...contentProps
+}) => {
+  const spreads = useMemo(() => getAllSpreads(pages, hasCover, useSpacer), [pages, hasCover, useSpacer]);
+  const isRtl = direction === 'rtl';
+
+  // The spread laid out on the table; it only catches up with spreadIndex once a turn has finished
+  const [shownIndex, setShownIndexState] = useState(spreadIndex);
+  const [turn, setTurnState] = useState<Turn | null>(null);
+
+  // Animation frames and pointer events outlive renders, so they work on refs
+  const shownIndexRef = useRef(shownIndex);
+  const turnRef = useRef(turn);
+  const spreadIndexRef = useRef(spreadIndex);
+  const animationRef = useRef<{ frame: number; turn: Turn; target: 0 | 1 } | null>(null);
+  const dragRef = useRef<{ pointerId: number; startX: number; lastX: number; lastTime: number; velocity: number; isDragging: boolean } | null>(null);
+
+  useEffect(() => {
+    spreadIndexRef.current = spreadIndex;
+  });
+
+  const setShownIndex = (index: number) => {
+    shownIndexRef.current = index;
+    setShownIndexState(index);
+  };
+
+  const setTurn = (next: Turn | null) => {
+    turnRef.current = next;
+    setTurnState(next);
+  };
+
+  // Turning is only drawn between two-page spreads; everything else just swaps
+  const canAnimate = (from: number, to: number) =>
+    readingMode === 'spread' && !prefersReducedMotion()
+    && !!spreads[from] && !!spreads[to] && !spreads[from].isWide && !spreads[to].isWide;
+
+  const settle = (finished: Turn, target: 0 | 1) => {
+    setTurn(null);
+    if (target === 0) return;
+    setShownIndex(finished.to);
+    if (finished.to !== spreadIndexRef.current) onSpreadChange(finished.to);
+  };
+
+  // Stops the running animation, optionally jumping to where it was heading
+  const stopAnimation = (finish = false) => {
+    const animation = animationRef.current;
+    if (!animation) return;
+    cancelAnimationFrame(animation.frame);
+    animationRef.current = null;
+    if (finish) settle(animation.turn, animation.target);
+  };
+
+  // Lets the leaf fall the rest of the way down (target 1), or back where it started (target 0)
+  const animate = (from: Turn, target: 0 | 1) => {
+    stopAnimation();
+    const start = performance.now();
+    const duration = TURN_DURATION * Math.abs(target - from.progress);
+    const step = (now: number) => {
+      const t = duration > 0 ? Math.min(1, (now - start) / duration) : 1;
+      if (t >= 1) {
+        animationRef.current = null;
+        settle(from, target);
+        return;
       }
+      setTurn({ ...from, progress: from.progress + (target - from.progress) * easeInOut(t) });
+      animationRef.current!.frame = requestAnimationFrame(step);
+    };
+    animationRef.current = { frame: requestAnimationFrame(step), turn: from, target };
+  };
+
+  useEffect(() => () => stopAnimation(), []);
+
+  // Switching layouts is not a page turn
+  useEffect(() => {
+    stopAnimation();
+    setTurn(null);
+    setShownIndex(spreadIndexRef.current);
+  }, [readingMode]);
+
+  // Turn to spreads chosen from outside: keyboard, buttons, search, the organizer
+  useEffect(() => {
+    const shown = shownIndexRef.current;
+    const current = turnRef.current;
+    // Nothing to do if already there, or already falling there; a drag towards it is taken over and finished
+    if (current ? current.to === spreadIndex && animationRef.current?.target === 1 : shown === spreadIndex) return;
+    stopAnimation();
+    dragRef.current = null;
+
+    // Turned back before the leaf was down
+    if (spreadIndex === shown) {
+      if (current) animate(current, 0);
+      return;
+    }
+    if (!canAnimate(shown, spreadIndex)) {
+      setTurn(null);
+      setShownIndex(spreadIndex);
+      return;
     }
+    // Going further the same way keeps the leaf where it is, so quick presses don't restart the turn
+    const sameWay = current && Math.sign(current.to - shown) === Math.sign(spreadIndex - shown);
+    animate({ from: shown, to: spreadIndex, progress: sameWay ? current.progress : 0 }, 1);
+  }, [spreadIndex]);
 
-    return {
-      left: (leftPageIndex >= 0 && leftPageIndex < pages.length) ? pages[leftPageIndex] : null,
-      right: (rightPageIndex >= 0 && rightPageIndex < pages.length) ? pages[rightPageIndex] : null,
-      isCoverView: false,
-      leftIsSpacer
-    };
-  }, [pages, spreadIndex, hasCover, useSpacer]);
+  // Dragging or swiping towards the spine turns the page under the pointer; dragging back undoes it.
+  // Only at the fitted zoom: zoomed in, dragging pans instead.
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (zoom > minZoom || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    if (dragRef.current) {
+      // A second finger: this is a pinch, not a turn
+      dragRef.current = null;
+      const current = turnRef.current;
+      if (current && !animationRef.current) animate(current, 0);
+      return;
+    }
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, lastX: e.clientX, lastTime: e.timeStamp, velocity: 0, isDragging: false };
+  };
 
-  const { left, right, isCoverView, leftIsSpacer } = displayedPages;
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const dx = e.clientX - drag.startX;
+    if (!drag.isDragging) {
+      if (Math.abs(dx) < DRAG_THRESHOLD) return;
+      drag.isDragging = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      // Grabbing a page mid-turn finishes that turn first
+      stopAnimation(true);
+    }
+    drag.velocity = (e.clientX - drag.lastX) / Math.max(1, e.timeStamp - drag.lastTime);
+    drag.lastX = e.clientX;
+    drag.lastTime = e.timeStamp;
+
+    // The direction can change mid-drag, so the target is worked out afresh on every move
+    const shown = shownIndexRef.current;
+    const to = shown + ((isRtl ? dx > 0 : dx < 0) ? 1 : -1);
+    if (!canAnimate(shown, to)) {
+      if (turnRef.current) setTurn(null);
+      return;
+    }
+    const width = e.currentTarget.getBoundingClientRect().width;
+    setTurn({ from: shown, to, progress: Math.min(1, Math.abs(dx) / (width / 2)) });
+  };
 
-  // Calculate dynamic aspect ratio from the first page
-  const containerStyle = useMemo(() => {
-    if (pages.length === 0) return { width: 'min(90vw, 1200px)', aspectRatio: '2/1.4' };
-    
-    let singleW = 595;
-    let singleH = 842;
+  // Turns exactly one spread from what is shown, finishing any turn under way first, so quick swipes and taps never skip
+  const turnBy = (step: 1 | -1) => {
+    stopAnimation(true);
+    const to = shownIndexRef.current + step;
+    const total = readingMode === 'spread' ? spreads.length : pages.length;
+    if (to >= 0 && to < total) onSpreadChange(to);
+  };
 
-    const firstPage = pages[0];
-    if (firstPage.width && firstPage.height) {
-        singleW = firstPage.width;
-        singleH = firstPage.height;
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>, isCancelled = false) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    if (!drag.isDragging) {
+      // Touch and pen taps near the edges turn the page; a mouse has the keyboard and the chevrons
+      if (!isCancelled && e.pointerType !== 'mouse') {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = (e.clientX - rect.left) / rect.width;
+        if (x < TAP_ZONE || x > 1 - TAP_ZONE) turnBy((x > 0.5) !== isRtl ? 1 : -1);
+      }
+      return;
     }
 
-    // Spread width is 2 * single page width
-    const ratio = (singleW * 2) / singleH;
+    const dx = e.clientX - drag.startX;
+    const width = e.currentTarget.getBoundingClientRect().width;
+    // Past halfway, or flicked the way it was dragged, the page goes over; otherwise it falls back
+    const isFlicked = Math.abs(drag.velocity) > FLICK_VELOCITY && Math.sign(drag.velocity) === Math.sign(dx);
+    const completes = !isCancelled && (isFlicked || Math.abs(dx) > width / 4);
 
-    return {
-        width: 'min(90vw, 1200px)',
-        aspectRatio: `${ratio}`
-    };
-  }, [pages]);
+    const current = turnRef.current;
+    if (current) {
+      animate(current, completes ? 1 : 0);
+      return;
+    }
+    // No leaf was drawn (single page, wide page, reduced motion): just go to the page
+    if (completes) turnBy((isRtl ? dx > 0 : dx < 0) ? 1 : -1);
+  };
 
-  return (
-    <div className="relative flex items-center justify-center w-full h-full max-h-[85vh] perspective-1500">
-      
-      {/* Book Container */}
-      <div 
-        className={`
-          relative flex transition-all duration-700 ease-in-out transform-style-3d
-          ${isCoverView ? '-translate-x-1/4' : 'translate-x-0'}
-        `}
-        style={containerStyle}
-      >
-        
-        {/* Left Page (or Spacer) */}
-        <div className={`
-          flex-1 relative transition-all duration-500 transform
-          ${(!left && !leftIsSpacer) ? 'opacity-0 pointer-events-none' : 'opacity-100'}
-        `}>
-          {/* Real Page */}
-          {left && (
-            <div className="absolute inset-0 m-1 origin-right shadow-2xl bg-white rounded-l-lg overflow-hidden border-r border-stone-200">
-               <img 
-                 src={left.url} 
-                 alt={left.name} 
-                 className="w-full h-full object-contain p-2" 
-                 draggable={false}
-               />
-               <div className="absolute bottom-2 left-4 text-xs text-stone-400 font-mono">
-                 {left.index + 1}
-               </div>
-               <div className="absolute top-0 right-0 bottom-0 w-8 bg-gradient-to-l from-stone-900/10 to-transparent pointer-events-none mix-blend-multiply" />
+  const gestureProps = {
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: (e: React.PointerEvent<HTMLDivElement>) => handlePointerUp(e),
+    onPointerCancel: (e: React.PointerEvent<HTMLDivElement>) => handlePointerUp(e, true)
+  };
+
+  const viewportProps = { zoom, minZoom, maxZoom, onZoomChange, className: `w-full h-[calc(85vh-${reservedHeight}px)]` };
+  // Height available to the pages at zoom 1
+  const fitHeight = `calc(80vh - ${reservedHeight}px)`;
+
+  if (readingMode === 'single') {
+    const page = pages[spreadIndex];
+    const w = page?.width || 595;
+    const h = page?.height || 842;
+
+    return (
+      <ZoomViewport {...viewportProps}>
+        {page && (
+          <div
+            key={page.id}
+            className="relative shadow-2xl bg-white rounded-lg overflow-hidden motion-safe:animate-in motion-safe:fade-in motion-safe:duration-300"
+            style={{ aspectRatio: `${w} / ${h}`, height: `calc(min(${fitHeight}, calc(90vw * ${h / w})) * ${zoom})` }}
+            onDoubleClick={() => onInspectPage(page)}
+            {...gestureProps}
+          >
+            <PageContent page={page} {...contentProps} />
+            <div className="absolute bottom-2 right-4 text-xs text-stone-400 font-mono">
+              {page.label ?? page.index + 1}
             </div>
-          )}
+          </div>
+        )}
+      </ZoomViewport>
+    );
+  }
 
-          {/* Spacer / Inside Cover Page */}
-          {leftIsSpacer && (
-             <div className="absolute inset-0 m-1 origin-right shadow-2xl bg-white rounded-l-lg overflow-hidden border-r border-stone-200">
-                {/* Blank page matching the background of a standard page (white) */}
-                <div className="w-full h-full bg-white opacity-100" />
-                <div className="absolute top-0 right-0 bottom-0 w-8 bg-gradient-to-l from-stone-900/10 to-transparent pointer-events-none mix-blend-multiply" />
-             </div>
-          )}
-        </div>
+  // Mid-turn the book is laid out as the spread it is turning to
+  const layout = spreads[turn ? turn.to : shownIndex] ?? NO_SPREAD;
+  const from = spreads[turn ? turn.from : shownIndex] ?? NO_SPREAD;
 
-        {/* Right Page */}
+  // Spreads are computed in reading order; with right-to-left binding the first page of a spread sits on the right
+  const firstOf = (spread: Spread): Sheet => ({ page: spread.left, isSpacer: spread.leftIsSpacer });
+  const secondOf = (spread: Spread): Sheet => ({ page: spread.right, isSpacer: false });
+
+  // What lies flat under the turning leaf, and the leaf itself: turning forward lifts the second side
+  // (showing the new first side on its back), turning back lifts the first side.
+  let first = firstOf(from);
+  let second = secondOf(from);
+  let leaf: { isFirstSide: boolean; front: Sheet; back: Sheet } | null = null;
+  if (turn) {
+    const to = spreads[turn.to] ?? NO_SPREAD;
+    if (turn.to > turn.from) {
+      second = secondOf(to);
+      leaf = { isFirstSide: false, front: secondOf(from), back: firstOf(to) };
+    } else {
+      first = firstOf(to);
+      leaf = { isFirstSide: true, front: firstOf(from), back: secondOf(to) };
+    }
+  }
+  const leftSheet = isRtl ? second : first;
+  const rightSheet = isRtl ? first : second;
+
+  // Each side is as wide as its page at the spread's shared height; a side without a page mirrors the page it faces
+  const firstRatio = pageRatio(layout.left ?? layout.right);
+  const secondRatio = pageRatio(layout.right ?? layout.left);
+  const spreadRatio = layout.isWide ? firstRatio : firstRatio + secondRatio;
+  const leftSideRatio = isRtl ? secondRatio : firstRatio;
+  const rightSideRatio = isRtl ? firstRatio : secondRatio;
+
+  // Sized from the zoom rather than CSS-scaled, so the SVGs are redrawn sharply at every zoom level
+  const containerStyle = {
+    width: `calc(min(90vw, 1200px, ${fitHeight} * ${spreadRatio}) * ${zoom})`,
+    aspectRatio: `${spreadRatio}`
+  };
+
+  // The paper of one page: the page itself, its number and the spine shadow
+  const renderFace = (side: 'left' | 'right', { page, isSpacer }: Sheet) => {
+    if (!page && !isSpacer) return null;
+    const isLeft = side === 'left';
+    const isCover = hasCover && !!page && page === pages[0];
+
+    return (
+      <div className={`
+        absolute inset-0 m-1 shadow-2xl bg-white overflow-hidden
+        ${isCover
+          ? (isLeft ? 'rounded-l-lg rounded-r-sm border-r-8 border-stone-800' : 'rounded-r-lg rounded-l-sm border-l-8 border-stone-800')
+          : (isLeft ? 'rounded-l-lg border-r border-stone-200' : 'rounded-r-lg border-l border-stone-200')}
+      `}>
+        {page ? (
+          <PageContent page={page} {...contentProps} />
+        ) : (
+          /* Spacer / Inside Cover Page: blank page matching the background of a standard page (white) */
+          <div className="w-full h-full bg-white opacity-100" />
+        )}
+
+        {page && !isCover && (
+          <div className={`absolute bottom-2 ${isLeft ? 'left-4' : 'right-4'} text-xs text-stone-400 font-mono`}>
+            {page.label ?? page.index + 1}
+          </div>
+        )}
+
+        {/* Spine shadow overlay, on the edge facing the binding */}
         <div className={`
-          flex-1 relative transition-all duration-500 transform
-          ${!right ? 'opacity-0' : 'opacity-100'}
-        `}>
-          {right && (
-            <div className={`
-              absolute inset-0 m-1 origin-left shadow-2xl bg-white overflow-hidden
-              ${isCoverView ? 'rounded-r-lg rounded-l-sm' : 'rounded-r-lg'}
-              ${isCoverView ? 'border-l-8 border-stone-800' : 'border-l border-stone-200'}
-            `}>
-               <img 
-                 src={right.url} 
-                 alt={right.name} 
-                 className="w-full h-full object-contain p-2" 
-                 draggable={false}
-               />
-               {!isCoverView && (
-                 <div className="absolute bottom-2 right-4 text-xs text-stone-400 font-mono">
-                   {right.index + 1}
-                 </div>
-               )}
-               
-               {/* Spine shadow overlay */}
-               <div className="absolute top-0 left-0 bottom-0 w-8 bg-gradient-to-r from-stone-900/10 to-transparent pointer-events-none mix-blend-multiply" />
-            </div>
-          )}
+          absolute top-0 bottom-0 w-8 from-stone-900/10 to-transparent pointer-events-none mix-blend-multiply
+          ${isLeft ? 'right-0 bg-gradient-to-l' : 'left-0 bg-gradient-to-r'}
+        `} />
+      </div>
+    );
+  };
+
+  const renderSide = (side: 'left' | 'right', sheet: Sheet) => (
+    <div
+      className={`relative transition-opacity duration-500 ${(!sheet.page && !sheet.isSpacer) ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
+      style={{ flex: `${side === 'left' ? leftSideRatio : rightSideRatio} 1 0%` }}
+      onDoubleClick={sheet.page ? () => onInspectPage(sheet.page!) : undefined}
+    >
+      {renderFace(side, sheet)}
+    </div>
+  );
+
+  // The turning leaf, hinged on the spine: its front shows the side it lifts from, its back the side it lands on
+  const renderLeaf = () => {
+    if (!leaf || !turn) return null;
+    const side = leaf.isFirstSide !== isRtl ? 'left' : 'right';
+    const isLeft = side === 'left';
+    const leftShare = leftSideRatio / spreadRatio;
+    // Shading deepens as the leaf stands up and fades as it lies down
+    const shade = Math.sin(turn.progress * Math.PI) * 0.25;
+
+    return (
+      <div
+        className="absolute top-0 bottom-0 transform-style-3d pointer-events-none"
+        style={{
+          left: isLeft ? 0 : `${leftShare * 100}%`,
+          width: `${(isLeft ? leftShare : 1 - leftShare) * 100}%`,
+          transformOrigin: isLeft ? 'right center' : 'left center',
+          transform: `rotateY(${(isLeft ? 180 : -180) * turn.progress}deg)`
+        }}
+      >
+        <div className="absolute inset-0 backface-hidden">
+          {renderFace(side, leaf.front)}
+          <div className="absolute inset-1 bg-stone-900 pointer-events-none" style={{ opacity: shade }} />
+        </div>
+        <div className="absolute inset-0 backface-hidden" style={{ transform: 'rotateY(180deg)' }}>
+          {renderFace(isLeft ? 'right' : 'left', leaf.back)}
+          <div className="absolute inset-1 bg-stone-900 pointer-events-none" style={{ opacity: shade }} />
         </div>
+      </div>
+    );
+  };
 
+  // A wide page opens flat across both sides, with the fold down its middle
+  const renderWidePage = (page: ProcessedPage) => (
+    <div className="relative flex-1" onDoubleClick={() => onInspectPage(page)}>
+      <div className="absolute inset-0 m-1 shadow-2xl bg-white overflow-hidden rounded-lg">
+        <PageContent page={page} {...contentProps} />
+        <div className={`absolute bottom-2 ${isRtl ? 'left-4' : 'right-4'} text-xs text-stone-400 font-mono`}>
+          {page.label ?? page.index + 1}
+        </div>
+        <div className="absolute top-0 bottom-0 left-1/2 -translate-x-1/2 w-16 bg-gradient-to-r from-transparent via-stone-900/10 to-transparent pointer-events-none mix-blend-multiply" />
       </div>
     </div>
   );
-};
\ No newline at end of file
+
+  return (
+    <ZoomViewport {...viewportProps}>
+      <div className="perspective-1500" {...gestureProps}>
+        {/* Book Container */}
+        <div
+          className={`
+            relative flex motion-safe:transition-transform duration-700 ease-in-out transform-style-3d
+            ${layout.isCoverView ? (isRtl ? 'translate-x-1/4' : '-translate-x-1/4') : 'translate-x-0'}
+          `}
+          style={containerStyle}
+        >
+          {layout.isWide && layout.left ? renderWidePage(layout.left) : (
+            <>
+              {renderSide('left', leftSheet)}
+              {renderSide('right', rightSheet)}
+              {renderLeaf()}
+            </>
+          )}
+        </div>
+      </div>
+    </ZoomViewport>
+  );
+};
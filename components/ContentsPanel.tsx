@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Bookmark as BookmarkIcon, ListTree, Pencil, Trash2 } from 'lucide-react';
+import { ContentsEntry, ProcessedPage } from '../types';
+
+interface ContentsPanelProps {
+  contents: ContentsEntry[];
+  currentEntry: ContentsEntry | null;
+  pages: ProcessedPage[]; // In reading order
+  onSelectPage: (pageIndex: number) => void;
+  onRenameBookmark: (pageId: string, label: string) => void;
+  onRemoveBookmark: (pageId: string) => void;
+  onClose: () => void;
+}
+
+interface BookmarkItemProps {
+  page: ProcessedPage;
+  pageLabel: string;
+  onSelect: () => void;
+  onRename: (label: string) => void;
+  onRemove: () => void;
+}
+
+const BookmarkItem: React.FC<BookmarkItemProps> = ({ page, pageLabel, onSelect, onRename, onRemove }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const label = page.bookmark?.label;
+
+  useEffect(() => {
+    if (isEditing) inputRef.current?.select();
+  }, [isEditing]);
+
+  const startEditing = () => {
+    setDraft(label ?? '');
+    setIsEditing(true);
+  };
+
+  const finishEditing = () => {
+    setIsEditing(false);
+    if (draft.trim() !== (label ?? '')) onRename(draft.trim());
+  };
+
+  return (
+    <li className="group flex items-center gap-1 rounded-lg hover:bg-stone-800">
+      {isEditing ? (
+        <input
+          ref={inputRef}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={finishEditing}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') finishEditing();
+            else if (e.key === 'Escape') setIsEditing(false);
+          }}
+          placeholder="Bookmark label"
+          className="flex-1 min-w-0 m-1 px-2 py-1 rounded-md bg-stone-900/80 border border-purple-500/60 text-sm outline-none placeholder:text-stone-500"
+        />
+      ) : (
+        <button onClick={onSelect} className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-left text-sm">
+          <BookmarkIcon size={14} className="shrink-0 text-purple-300" />
+          <span className={`flex-1 truncate ${label ? 'text-stone-200' : 'text-stone-500 italic'}`}>{label || 'Untitled'}</span>
+          <span className="font-mono text-xs text-stone-400">{pageLabel}</span>
+        </button>
+      )}
+      {!isEditing && (
+        <>
+          <button
+            onClick={startEditing}
+            className="p-1 rounded text-stone-500 hover:text-white hover:bg-stone-700 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+            title="Rename"
+          >
+            <Pencil size={14} />
+          </button>
+          <button
+            onClick={onRemove}
+            className="p-1 mr-1 rounded text-stone-500 hover:text-red-400 hover:bg-stone-700 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+            title="Remove bookmark"
+          >
+            <Trash2 size={14} />
+          </button>
+        </>
+      )}
+    </li>
+  );
+};
+
+/**
+ * The book's table of contents and the reader's bookmarks, each jumping to the spread it points at.
+ */
+export const ContentsPanel: React.FC<ContentsPanelProps> = ({
+  contents,
+  currentEntry,
+  pages,
+  onSelectPage,
+  onRenameBookmark,
+  onRemoveBookmark,
+  onClose
+}) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+  const bookmarked = pages.map((page, pageIndex) => ({ page, pageIndex })).filter(({ page }) => page.bookmark);
+
+  // Open where the reader is
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, []);
+
+  const pageLabel = (pageIndex: number) => pages[pageIndex]?.label ?? `${pageIndex + 1}`;
+
+  return (
+    <aside className="fixed top-0 left-0 bottom-0 w-80 max-w-[90vw] bg-stone-900/95 backdrop-blur-md text-stone-100 shadow-2xl z-50 flex flex-col border-r border-white/10 animate-in slide-in-from-left duration-300">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-medium">Contents</h2>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+          title="Close"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <ul className="p-2">
+          {contents.length === 0 && (
+            <li className="px-2 py-6 flex flex-col items-center gap-2 text-sm text-center text-stone-400">
+              <ListTree size={24} className="text-stone-600" />
+              This book has no chapters. Add them in book.json, sort the pages into folders, or give the pages a title.
+            </li>
+          )}
+          {contents.map((entry, i) => {
+            const isCurrent = entry === currentEntry;
+            return (
+              <li key={i}>
+                <button
+                  ref={isCurrent ? currentRef : undefined}
+                  onClick={() => onSelectPage(entry.pageIndex)}
+                  className={`
+                    w-full flex items-baseline gap-2 pr-3 py-1.5 rounded-lg text-left text-sm transition-colors
+                    ${isCurrent ? 'bg-purple-600/30 text-white' : 'text-stone-300 hover:bg-stone-800'}
+                    ${entry.level === 1 ? 'font-medium' : ''}
+                  `}
+                  style={{ paddingLeft: `${0.75 * entry.level}rem` }}
+                >
+                  <span className="flex-1 truncate" title={entry.title}>{entry.title}</span>
+                  <span className="font-mono text-xs text-stone-400">{pageLabel(entry.pageIndex)}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <h3 className="px-4 pt-3 pb-1 text-xs uppercase tracking-wide text-stone-400 border-t border-white/10">Bookmarks</h3>
+        <ul className="p-2">
+          {bookmarked.length === 0 && (
+            <li className="px-2 py-4 text-sm text-center text-stone-400">
+              No bookmarks yet. Use the bookmark button in the toolbar to mark the page you're on.
+            </li>
+          )}
+          {bookmarked.map(({ page, pageIndex }) => (
+            <BookmarkItem
+              key={page.id}
+              page={page}
+              pageLabel={pageLabel(pageIndex)}
+              onSelect={() => onSelectPage(pageIndex)}
+              onRename={(label) => onRenameBookmark(page.id, label)}
+              onRemove={() => onRemoveBookmark(page.id)}
+            />
+          ))}
+        </ul>
+      </div>
+    </aside>
+  );
+};
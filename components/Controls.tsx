@@ -1,5 +1,6 @@
 import React from 'react';
-import { ChevronLeft, ChevronRight, Book, LayoutTemplate, Columns } from 'lucide-react';
+import { BindingDirection, ReadingMode, RevealMode } from '../types';
+import { ChevronLeft, ChevronRight, Book, LayoutTemplate, Columns, FileDown, Loader2, LayoutGrid, ShieldAlert, ScanEye, Eye, Search, BookOpen, RectangleVertical, ScrollText, ArrowRightLeft, ZoomIn, ZoomOut, TriangleAlert, MessageSquare, Layers, GalleryThumbnails, Grid3x3, ListTree, Bookmark, BookmarkCheck } from 'lucide-react';
 
 interface ControlsProps {
   hasPages: boolean;
@@ -12,9 +13,54 @@ interface ControlsProps {
   onToggleCover: () => void;
   useSpacer: boolean;
   onToggleSpacer: () => void;
+  readingMode: ReadingMode;
+  onChangeReadingMode: (mode: ReadingMode) => void;
+  direction: BindingDirection;
+  onToggleDirection: () => void;
+  onExport: () => void;
+  isExporting: boolean;
+  isOrganizerOpen: boolean;
+  onToggleOrganizer: () => void;
+  hasRedactions: boolean;
+  isRedactionPanelOpen: boolean;
+  onToggleRedactionPanel: () => void;
+  diagnosticCount: number;
+  isDiagnosticsOpen: boolean;
+  onToggleDiagnostics: () => void;
+  hasLayers: boolean;
+  hiddenLayerCount: number;
+  isLayersPanelOpen: boolean;
+  onToggleLayersPanel: () => void;
+  revealMode: RevealMode;
+  onCycleRevealMode: () => void;
+  isSearchOpen: boolean;
+  onToggleSearch: () => void;
+  isContentsOpen: boolean;
+  onToggleContents: () => void;
+  isBookmarked: boolean; // Whether the first page in view has a bookmark
+  onToggleBookmark: () => void;
+  annotationCount: number;
+  isAnnotationsOpen: boolean;
+  onToggleAnnotations: () => void;
+  zoom: number;
+  canZoomIn: boolean;
+  canZoomOut: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onZoomReset: () => void;
+  isFilmstripOpen: boolean;
+  onToggleFilmstrip: () => void;
+  onOpenOverview: () => void;
   currentPageInfo: string;
+  currentChapter: string | null;
 }
 
+const READING_MODES: { mode: ReadingMode; label: string; Icon: typeof BookOpen }[] = [
+  { mode: 'spread', label: "Two-page spreads", Icon: BookOpen },
+  { mode: 'single', label: "Single page", Icon: RectangleVertical },
+  { mode: 'scroll', label: "Continuous scroll", Icon: ScrollText }
+];
+
 export const Controls: React.FC<ControlsProps> = ({
   hasPages,
   canGoPrev,
@@ -26,10 +72,54 @@ export const Controls: React.FC<ControlsProps> = ({
   onToggleCover,
   useSpacer,
   onToggleSpacer,
-  currentPageInfo
+  readingMode,
+  onChangeReadingMode,
+  direction,
+  onToggleDirection,
+  onExport,
+  isExporting,
+  isOrganizerOpen,
+  onToggleOrganizer,
+  hasRedactions,
+  isRedactionPanelOpen,
+  onToggleRedactionPanel,
+  diagnosticCount,
+  isDiagnosticsOpen,
+  onToggleDiagnostics,
+  hasLayers,
+  hiddenLayerCount,
+  isLayersPanelOpen,
+  onToggleLayersPanel,
+  revealMode,
+  onCycleRevealMode,
+  isSearchOpen,
+  onToggleSearch,
+  isContentsOpen,
+  onToggleContents,
+  isBookmarked,
+  onToggleBookmark,
+  annotationCount,
+  isAnnotationsOpen,
+  onToggleAnnotations,
+  zoom,
+  canZoomIn,
+  canZoomOut,
+  onZoomIn,
+  onZoomOut,
+  onZoomReset,
+  isFilmstripOpen,
+  onToggleFilmstrip,
+  onOpenOverview,
+  currentPageInfo,
+  currentChapter
 }) => {
   if (!hasPages) return null;
 
+  // Chevrons point where the page turns: in a right-to-left book the left one goes forward
+  const isRtl = direction === 'rtl';
+  const leftNav = isRtl ? { onClick: onNext, enabled: canGoNext } : { onClick: onPrev, enabled: canGoPrev };
+  const rightNav = isRtl ? { onClick: onPrev, enabled: canGoPrev } : { onClick: onNext, enabled: canGoNext };
+
   return (
     <div className="fixed bottom-0 left-0 right-0 p-6 flex items-center justify-center pointer-events-none z-50">
       <div className="flex items-center gap-4 bg-stone-900/90 backdrop-blur-md text-stone-100 px-6 py-3 rounded-2xl shadow-xl pointer-events-auto transition-transform hover:scale-105 border border-white/10">
@@ -43,62 +133,296 @@ export const Controls: React.FC<ControlsProps> = ({
           <Book size={20} />
         </button>
 
+        {/* Export PDF */}
+        <button 
+          onClick={onExport}
+          disabled={isExporting}
+          className={`
+            p-2 rounded-lg transition-colors
+            ${isExporting ? 'text-stone-600 cursor-wait' : 'hover:bg-stone-700 text-stone-400 hover:text-white'}
+          `}
+          title="Export as PDF"
+        >
+          {isExporting ? <Loader2 size={20} className="animate-spin" /> : <FileDown size={20} />}
+        </button>
+
         <div className="w-px h-6 bg-stone-700 mx-2" />
 
-        {/* Toggle Cover Mode */}
+        {/* Reading Mode */}
+        <div className="flex items-center bg-stone-800/80 rounded-lg p-0.5">
+          {READING_MODES.map(({ mode, label, Icon }) => (
+            <button 
+              key={mode}
+              onClick={() => onChangeReadingMode(mode)}
+              className={`
+                p-1.5 rounded-md transition-colors
+                ${readingMode === mode ? 'bg-purple-600/40 text-purple-100' : 'hover:bg-stone-700 text-stone-400'}
+              `}
+              title={label}
+            >
+              <Icon size={18} />
+            </button>
+          ))}
+        </div>
+
+        {/* Binding Direction */}
         <button 
-          onClick={onToggleCover}
+          onClick={onToggleDirection}
           className={`
             p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium
-            ${hasCover ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+            ${direction === 'rtl' ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
           `}
-          title={hasCover ? "Cover Mode On" : "Cover Mode Off"}
+          title={direction === 'rtl' ? "Right-to-left binding" : "Left-to-right binding"}
         >
-          <LayoutTemplate size={20} />
+          <ArrowRightLeft size={20} />
           <span className="hidden sm:inline">
-            {hasCover ? "Cover" : "No Cover"}
+            {direction === 'rtl' ? "RTL" : "LTR"}
           </span>
         </button>
 
-        {/* Align / Offset Page */}
+        {/* Cover and spacer only affect two-page spreads */}
+        {readingMode === 'spread' && (
+          <>
+            {/* Toggle Cover Mode */}
+            <button 
+              onClick={onToggleCover}
+              className={`
+                p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium
+                ${hasCover ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+              `}
+              title={hasCover ? "Cover Mode On" : "Cover Mode Off"}
+            >
+              <LayoutTemplate size={20} />
+              <span className="hidden sm:inline">
+                {hasCover ? "Cover" : "No Cover"}
+              </span>
+            </button>
+
+            {/* Align / Offset Page */}
+            <button 
+              onClick={onToggleSpacer}
+              className={`
+                p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium
+                ${useSpacer ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+              `}
+              title="Align Spread (Offset pages by one)"
+            >
+              <Columns size={20} />
+              <span className="hidden sm:inline">
+                Align
+              </span>
+            </button>
+          </>
+        )}
+
+        {/* Zoom */}
+        <div className="flex items-center bg-stone-800/80 rounded-lg p-0.5">
+          <button 
+            onClick={onZoomOut}
+            disabled={!canZoomOut}
+            className={`
+              p-1.5 rounded-md transition-colors
+              ${canZoomOut ? 'hover:bg-stone-700 text-stone-400' : 'text-stone-600 cursor-not-allowed'}
+            `}
+            title="Zoom out (-)"
+          >
+            <ZoomOut size={18} />
+          </button>
+          <button 
+            onClick={onZoomReset}
+            className="px-1.5 py-1 rounded-md transition-colors hover:bg-stone-700 text-stone-400 font-mono text-xs min-w-[48px]"
+            title="Fit to screen (0). Double-click a page to inspect it."
+          >
+            {Math.round(zoom * 100)}%
+          </button>
+          <button 
+            onClick={onZoomIn}
+            disabled={!canZoomIn}
+            className={`
+              p-1.5 rounded-md transition-colors
+              ${canZoomIn ? 'hover:bg-stone-700 text-stone-400' : 'text-stone-600 cursor-not-allowed'}
+            `}
+            title="Zoom in (+)"
+          >
+            <ZoomIn size={18} />
+          </button>
+        </div>
+
+        {/* Search */}
+        <button 
+          onClick={onToggleSearch}
+          className={`
+            p-2 rounded-lg transition-colors
+            ${isSearchOpen ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+          `}
+          title="Search (Ctrl+F)"
+        >
+          <Search size={20} />
+        </button>
+
+        {/* Contents and Bookmarks */}
         <button 
-          onClick={onToggleSpacer}
+          onClick={onToggleContents}
           className={`
-            p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium
-            ${useSpacer ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+            p-2 rounded-lg transition-colors
+            ${isContentsOpen ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
           `}
-          title="Align Spread (Offset pages by one)"
+          title="Contents and bookmarks"
         >
-          <Columns size={20} />
-          <span className="hidden sm:inline">
-            Align
-          </span>
+          <ListTree size={20} />
+        </button>
+        <button 
+          onClick={onToggleBookmark}
+          className={`
+            p-2 rounded-lg transition-colors
+            ${isBookmarked ? 'text-purple-300 hover:bg-stone-700' : 'hover:bg-stone-700 text-stone-400'}
+          `}
+          title={isBookmarked ? "Remove bookmark" : "Bookmark this page"}
+        >
+          {isBookmarked ? <BookmarkCheck size={20} /> : <Bookmark size={20} />}
+        </button>
+
+        {/* Annotations */}
+        <button 
+          onClick={onToggleAnnotations}
+          className={`
+            p-2 rounded-lg transition-colors flex items-center gap-1 text-sm font-medium
+            ${isAnnotationsOpen ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+          `}
+          title="Annotations and review comments"
+        >
+          <MessageSquare size={20} />
+          {annotationCount > 0 && <span className="font-mono text-xs">{annotationCount}</span>}
         </button>
 
+        {/* Arrange Pages */}
+        <button 
+          onClick={onToggleOrganizer}
+          className={`
+            p-2 rounded-lg transition-colors
+            ${isOrganizerOpen ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+          `}
+          title="Arrange pages"
+        >
+          <LayoutGrid size={20} />
+        </button>
+
+        {/* Tag Layers */}
+        {hasLayers && (
+          <button 
+            onClick={onToggleLayersPanel}
+            className={`
+              p-2 rounded-lg transition-colors flex items-center gap-1 text-sm font-medium
+              ${isLayersPanelOpen ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+            `}
+            title={hiddenLayerCount > 0 ? `Layers (${hiddenLayerCount} hidden)` : "Layers"}
+          >
+            <Layers size={20} />
+            {hiddenLayerCount > 0 && <span className="font-mono text-xs">−{hiddenLayerCount}</span>}
+          </button>
+        )}
+
+        {/* Redaction Policy */}
+        {hasRedactions && (
+          <button 
+            onClick={onToggleRedactionPanel}
+            className={`
+              p-2 rounded-lg transition-colors
+              ${isRedactionPanelOpen ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+            `}
+            title="Choose what is redacted"
+          >
+            <ShieldAlert size={20} />
+          </button>
+        )}
+
+        {/* Reveal / Compare Redactions */}
+        {hasRedactions && (
+          <button 
+            onClick={onCycleRevealMode}
+            className={`
+              p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium
+              ${revealMode !== 'off' ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-stone-400'}
+            `}
+            title={
+              revealMode === 'off' ? "Highlight redacted regions" :
+              revealMode === 'highlight' ? "Reveal original content" : "Back to redacted view"
+            }
+          >
+            {revealMode === 'reveal' ? <Eye size={20} /> : <ScanEye size={20} />}
+            {revealMode !== 'off' && (
+              <span className="hidden sm:inline">
+                {revealMode === 'highlight' ? "Highlight" : "Reveal"}
+              </span>
+            )}
+          </button>
+        )}
+
+        {/* Diagnostics */}
+        {diagnosticCount > 0 && (
+          <button 
+            onClick={onToggleDiagnostics}
+            className={`
+              p-2 rounded-lg transition-colors flex items-center gap-1 text-sm font-medium
+              ${isDiagnosticsOpen ? 'bg-purple-600/30 text-purple-200 shadow-[0_0_10px_rgba(147,51,234,0.3)]' : 'hover:bg-stone-700 text-amber-400'}
+            `}
+            title="Problems found while loading the book"
+          >
+            <TriangleAlert size={20} />
+            <span className="font-mono text-xs">{diagnosticCount}</span>
+          </button>
+        )}
+
         <div className="w-px h-6 bg-stone-700 mx-2" />
 
+        {/* Filmstrip and Overview */}
+        <div className="flex items-center bg-stone-800/80 rounded-lg p-0.5">
+          <button 
+            onClick={onToggleFilmstrip}
+            className={`
+              p-1.5 rounded-md transition-colors
+              ${isFilmstripOpen ? 'bg-purple-600/40 text-purple-100' : 'hover:bg-stone-700 text-stone-400'}
+            `}
+            title={isFilmstripOpen ? "Hide page strip" : "Show page strip"}
+          >
+            <GalleryThumbnails size={18} />
+          </button>
+          <button 
+            onClick={onOpenOverview}
+            className="p-1.5 rounded-md transition-colors hover:bg-stone-700 text-stone-400"
+            title="Overview of all pages"
+          >
+            <Grid3x3 size={18} />
+          </button>
+        </div>
+
         {/* Navigation */}
         <button 
-          onClick={onPrev}
-          disabled={!canGoPrev}
+          onClick={leftNav.onClick}
+          disabled={!leftNav.enabled}
           className={`
             p-2 rounded-lg transition-colors
-            ${canGoPrev ? 'hover:bg-stone-700 text-white' : 'text-stone-600 cursor-not-allowed'}
+            ${leftNav.enabled ? 'hover:bg-stone-700 text-white' : 'text-stone-600 cursor-not-allowed'}
           `}
         >
           <ChevronLeft size={24} />
         </button>
 
-        <span className="min-w-[80px] text-center font-mono text-sm">
+        <span className="min-w-[80px] flex flex-col items-center font-mono text-sm">
           {currentPageInfo}
+          {currentChapter && (
+            <span className="max-w-[10rem] truncate font-sans text-xs text-stone-400" title={currentChapter}>
+              {currentChapter}
+            </span>
+          )}
         </span>
 
         <button 
-          onClick={onNext}
-          disabled={!canGoNext}
+          onClick={rightNav.onClick}
+          disabled={!rightNav.enabled}
           className={`
             p-2 rounded-lg transition-colors
-            ${canGoNext ? 'hover:bg-stone-700 text-white' : 'text-stone-600 cursor-not-allowed'}
+            ${rightNav.enabled ? 'hover:bg-stone-700 text-white' : 'text-stone-600 cursor-not-allowed'}
           `}
         >
           <ChevronRight size={24} />
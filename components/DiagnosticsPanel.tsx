@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { X, TriangleAlert, Info } from 'lucide-react';
+import { Diagnostic, DiagnosticKind, ProcessedPage } from '../types';
+
+interface DiagnosticsPanelProps {
+  pages: ProcessedPage[]; // Every page, hidden ones included
+  bookDiagnostics: Diagnostic[];
+  currentPageIds: string[];
+  onSelectPage: (page: ProcessedPage) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<DiagnosticKind, string> = {
+  'missing-asset': 'Missing asset',
+  'ambiguous-asset': 'Ambiguous link',
+  'unused-asset': 'Unused asset',
+  'parse-error': 'Parse error',
+  'duplicate-name': 'Duplicate name',
+  'default-size': 'Default size'
+};
+
+// Problems that change what the reader sees; the rest are housekeeping
+const SERIOUS_KINDS: DiagnosticKind[] = ['missing-asset', 'ambiguous-asset', 'parse-error'];
+
+const DiagnosticItem: React.FC<{ diagnostic: Diagnostic }> = ({ diagnostic }) => {
+  const isSerious = SERIOUS_KINDS.includes(diagnostic.kind);
+  return (
+    <li className="flex gap-2 px-2 py-1.5 text-sm">
+      {isSerious
+        ? <TriangleAlert size={16} className="text-amber-400 shrink-0 mt-0.5" />
+        : <Info size={16} className="text-stone-400 shrink-0 mt-0.5" />}
+      <div className="min-w-0">
+        <span className="text-xs uppercase tracking-wider text-stone-400">{KIND_LABELS[diagnostic.kind]}</span>
+        <p className="text-stone-200 break-words">{diagnostic.message}</p>
+      </div>
+    </li>
+  );
+};
+
+/**
+ * What went wrong while loading the book, by page, so authors know what to fix in their source folder.
+ */
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ pages, bookDiagnostics, currentPageIds, onSelectPage, onClose }) => {
+  const [showWholeBook, setShowWholeBook] = useState(false);
+
+  const pagesWithProblems = pages.filter(p => p.diagnostics && p.diagnostics.length > 0);
+  const shownPages = showWholeBook ? pagesWithProblems : pagesWithProblems.filter(p => currentPageIds.includes(p.id));
+  const isEmpty = shownPages.length === 0 && (!showWholeBook || bookDiagnostics.length === 0);
+
+  return (
+    <div className="fixed bottom-28 left-1/2 -translate-x-1/2 w-[28rem] max-w-[90vw] bg-stone-900/95 backdrop-blur-md text-stone-100 rounded-2xl shadow-2xl z-50 border border-white/10 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-medium">Diagnostics</h2>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center bg-stone-800/80 rounded-lg p-0.5 text-xs">
+            {[false, true].map(wholeBook => (
+              <button
+                key={String(wholeBook)}
+                onClick={() => setShowWholeBook(wholeBook)}
+                className={`
+                  px-2 py-1 rounded-md transition-colors
+                  ${showWholeBook === wholeBook ? 'bg-purple-600/40 text-purple-100' : 'hover:bg-stone-700 text-stone-400'}
+                `}
+              >
+                {wholeBook ? "Whole book" : "These pages"}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto p-2 space-y-2">
+        {isEmpty && (
+          <p className="px-2 py-4 text-sm text-center text-stone-400">
+            {showWholeBook ? "No problems found." : "No problems on the pages in view."}
+          </p>
+        )}
+
+        {showWholeBook && bookDiagnostics.length > 0 && (
+          <section>
+            <h3 className="px-2 py-1 text-xs font-semibold text-stone-300">Whole book</h3>
+            <ul>
+              {bookDiagnostics.map((d, i) => <DiagnosticItem key={i} diagnostic={d} />)}
+            </ul>
+          </section>
+        )}
+
+        {shownPages.map(page => (
+          <section key={page.id}>
+            <button
+              onClick={() => onSelectPage(page)}
+              disabled={page.hidden}
+              className="w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left text-xs font-semibold text-stone-300 enabled:hover:bg-stone-800 enabled:hover:text-white"
+              title={page.hidden ? "This page is hidden" : "Go to page"}
+            >
+              <span className="font-mono truncate">{page.name}</span>
+              {page.hidden && <span className="font-normal text-stone-500">hidden</span>}
+            </button>
+            <ul>
+              {page.diagnostics!.map((d, i) => <DiagnosticItem key={i} diagnostic={d} />)}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
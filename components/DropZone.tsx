@@ -1,16 +1,15 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { FolderOpen, FileUp } from 'lucide-react';
-import { processFiles } from '../utils/fileUtils';
-import { ProcessedPage } from '../types';
+import { FolderOpen, FileUp, FileArchive } from 'lucide-react';
 
 interface DropZoneProps {
-  onFilesLoaded: (pages: ProcessedPage[]) => void;
-  onLoadingStart: () => void;
+  // Called synchronously from the event: a drop's items can only be read while it is being handled
+  onFilesSelected: (items: DataTransferItemList | FileList) => void;
 }
 
-export const DropZone: React.FC<DropZoneProps> = ({ onFilesLoaded, onLoadingStart }) => {
+export const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -22,36 +21,30 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesLoaded, onLoadingStar
     setIsDragOver(false);
   }, []);
 
-  const handleDrop = useCallback(async (e: React.DragEvent) => {
+  const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    onLoadingStart();
+    onFilesSelected(e.dataTransfer.items);
+  }, [onFilesSelected]);
 
-    try {
-      const pages = await processFiles(e.dataTransfer.items);
-      onFilesLoaded(pages);
-    } catch (error) {
-      console.error("Error processing files:", error);
-      alert("Failed to process files. Please try again.");
-    }
-  }, [onFilesLoaded, onLoadingStart]);
-
-  const handleFileInput = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onLoadingStart();
-      try {
-        const pages = await processFiles(e.target.files);
-        onFilesLoaded(pages);
-      } catch (error) {
-        console.error("Error processing files:", error);
-      }
+      onFilesSelected(e.target.files);
+      // Allow picking the same files again after fixing them
+      e.target.value = '';
     }
-  }, [onFilesLoaded, onLoadingStart]);
+  }, [onFilesSelected]);
 
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
 
+  const triggerArchiveInput = (e: React.MouseEvent) => {
+    // Don't let the click bubble up to the folder picker
+    e.stopPropagation();
+    archiveInputRef.current?.click();
+  };
+
   return (
     <div 
       className={`
@@ -75,6 +68,14 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesLoaded, onLoadingStar
         // @ts-ignore - webkitdirectory is standard in modern browsers but not in TS defs sometimes
         webkitdirectory="" 
       />
+      <input 
+        type="file" 
+        ref={archiveInputRef} 
+        onChange={handleFileInput} 
+        className="hidden" 
+        accept=".zip,.cbz,application/zip,application/x-cbz"
+        multiple 
+      />
       
       <div className="relative flex flex-col items-center justify-center text-center z-10">
         
@@ -92,7 +93,7 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesLoaded, onLoadingStar
               Drop your book here
             </h3>
             <p className="text-stone-500 max-w-sm mx-auto group-hover:text-stone-600">
-              Drag and drop a folder containing SVG pages. <br/>We'll arrange them into a book for you.
+              Drag and drop a folder or ZIP archive containing SVG pages. <br/>We'll arrange them into a book for you.
             </p>
           </div>
 
@@ -104,6 +105,14 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesLoaded, onLoadingStar
             <span className="flex items-center gap-2">
               <FolderOpen size={16} /> Folders
             </span>
+            <span className="w-1.5 h-1.5 bg-stone-300 rounded-full group-hover:bg-purple-300"></span>
+            <button
+              onClick={triggerArchiveInput}
+              className="flex items-center gap-2 hover:text-purple-600 underline-offset-4 hover:underline"
+              title="Open a .zip or .cbz archive"
+            >
+              <FileArchive size={16} /> ZIP / CBZ
+            </button>
           </div>
         </div>
 
@@ -0,0 +1,46 @@
+import React from 'react';
+import { BindingDirection, ProcessedPage } from '../types';
+import { SpreadThumbnail } from './PageThumbnail';
+
+interface FilmstripProps {
+  spreads: (ProcessedPage | null)[][]; // The pages at each spread index, from getSpreadPages
+  currentIndex: number;
+  direction: BindingDirection;
+  onSelect: (spreadIndex: number) => void;
+}
+
+// Room the reader leaves free below the book while the filmstrip is open, in pixels
+export const FILMSTRIP_HEIGHT = 128;
+
+const THUMBNAIL_HEIGHT = 64;
+
+/**
+ * A row of page thumbnails above the controls, one stop per spread, scrolled to keep the current spread in view.
+ */
+export const Filmstrip: React.FC<FilmstripProps> = ({ spreads, currentIndex, direction, onSelect }) => {
+  // A plain mouse wheel scrolls the strip sideways
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    if (e.deltaX !== 0 || e.ctrlKey) return;
+    e.currentTarget.scrollLeft += direction === 'rtl' ? -e.deltaY : e.deltaY;
+  };
+
+  return (
+    <div className="fixed bottom-24 left-0 right-0 flex justify-center pointer-events-none z-40 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div
+        dir={direction}
+        onWheel={handleWheel}
+        className="flex items-end gap-4 max-w-5xl w-[90vw] overflow-x-auto px-4 pt-3 pb-2 bg-stone-900/90 backdrop-blur-md rounded-2xl shadow-xl border border-white/10 pointer-events-auto"
+      >
+        {spreads.map((pages, i) => (
+          <SpreadThumbnail
+            key={i}
+            pages={pages}
+            height={THUMBNAIL_HEIGHT}
+            isCurrent={i === currentIndex}
+            onClick={() => onSelect(i)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { X, Eye, RotateCcw } from 'lucide-react';
+
+interface LayersPanelProps {
+  layers: { tag: string; pageCount: number }[];
+  hiddenLayers: string[];
+  defaultHiddenLayers: string[]; // What the book's manifest hides
+  onChange: (hiddenLayers: string[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * The book's data-tags as layers, each shown or hidden on every page at once.
+ */
+export const LayersPanel: React.FC<LayersPanelProps> = ({ layers, hiddenLayers, defaultHiddenLayers, onChange, onClose }) => {
+  const hidden = new Set(hiddenLayers);
+  const isDefault = hiddenLayers.length === defaultHiddenLayers.length && defaultHiddenLayers.every(t => hidden.has(t));
+
+  const toggleLayer = (tag: string) => {
+    onChange(hidden.has(tag) ? hiddenLayers.filter(t => t !== tag) : [...hiddenLayers, tag]);
+  };
+
+  return (
+    <div className="fixed bottom-28 left-1/2 -translate-x-1/2 w-96 max-w-[90vw] bg-stone-900/95 backdrop-blur-md text-stone-100 rounded-2xl shadow-2xl z-50 border border-white/10 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-medium">Layers</h2>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+          title="Close"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto p-2">
+        {layers.map(({ tag, pageCount }) => (
+          <li key={tag}>
+            <label className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-stone-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!hidden.has(tag)}
+                onChange={() => toggleLayer(tag)}
+                className="accent-purple-500"
+              />
+              <span className={`flex-1 font-mono text-sm truncate ${hidden.has(tag) ? 'text-stone-500' : ''}`} title={tag}>{tag}</span>
+              <span className="text-xs text-stone-400">
+                {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2 px-4 py-3 border-t border-white/10 text-sm">
+        <button
+          onClick={() => onChange([])}
+          disabled={hiddenLayers.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-stone-300 enabled:hover:bg-stone-700 enabled:hover:text-white disabled:text-stone-600"
+          title="Show every layer"
+        >
+          <Eye size={16} /> Show all
+        </button>
+        <button
+          onClick={() => onChange(defaultHiddenLayers)}
+          disabled={isDefault}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-stone-300 enabled:hover:bg-stone-700 enabled:hover:text-white disabled:text-stone-600"
+          title="Show and hide layers as the book's manifest sets them"
+        >
+          <RotateCcw size={16} /> Book defaults
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { LibraryEntry } from '../types';
+import { BookMarked, Pencil, Trash2, Library as LibraryIcon } from 'lucide-react';
+
+interface LibraryProps {
+  books: LibraryEntry[];
+  onOpenBook: (book: LibraryEntry) => void;
+  onRenameBook: (id: string, title: string) => void;
+  onMoveBook: (id: string, shelf: string | undefined) => void;
+  onDeleteBook: (id: string) => void;
+}
+
+// Value of the shelf picker option that asks for a new shelf name
+const NEW_SHELF = '\u0000new';
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+const TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 3600],
+  ['month', 30 * 24 * 3600],
+  ['week', 7 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60]
+];
+
+const formatOpenedAt = (time: number): string => {
+  const seconds = (time - Date.now()) / 1000;
+  for (const [unit, size] of TIME_UNITS) {
+    if (Math.abs(seconds) >= size) return relativeTime.format(Math.round(seconds / size), unit);
+  }
+  return 'just now';
+};
+
+interface BookCardProps extends Omit<LibraryProps, 'books'> {
+  book: LibraryEntry;
+  shelves: string[];
+}
+
+const BookCard: React.FC<BookCardProps> = ({ book, shelves, onOpenBook, onRenameBook, onMoveBook, onDeleteBook }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(book.title);
+
+  const startRenaming = () => {
+    setDraftTitle(book.title);
+    setIsRenaming(true);
+  };
+
+  const finishRenaming = () => {
+    setIsRenaming(false);
+    const title = draftTitle.trim();
+    if (title && title !== book.title) onRenameBook(book.id, title);
+  };
+
+  const handleShelfChange = (value: string) => {
+    if (value !== NEW_SHELF) {
+      onMoveBook(book.id, value || undefined);
+      return;
+    }
+    const shelf = prompt("Name of the new shelf:")?.trim();
+    if (shelf) onMoveBook(book.id, shelf);
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Remove "${book.title}" from your library? Its pages and reading position will be deleted from this browser.`)) {
+      onDeleteBook(book.id);
+    }
+  };
+
+  return (
+    <li className="flex flex-col rounded-xl border border-stone-200 bg-white/60 hover:bg-white/90 hover:border-purple-300 hover:shadow-md transition-all overflow-hidden group">
+      <button
+        onClick={() => onOpenBook(book)}
+        className="aspect-[3/4] bg-stone-100 flex items-center justify-center overflow-hidden"
+        title={`Open ${book.title}`}
+      >
+        {book.thumbnail ? (
+          <img src={book.thumbnail} alt="" className="w-full h-full object-contain" />
+        ) : (
+          <BookMarked size={40} className="text-stone-300 group-hover:text-purple-300 transition-colors" />
+        )}
+      </button>
+
+      <div className="p-3 space-y-1">
+        {isRenaming ? (
+          <input
+            autoFocus
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onBlur={finishRenaming}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') finishRenaming();
+              else if (e.key === 'Escape') setIsRenaming(false);
+            }}
+            className="w-full px-1 -mx-1 rounded border border-purple-300 text-sm font-medium text-stone-800 outline-none"
+          />
+        ) : (
+          <p className="font-medium text-sm text-stone-800 truncate" title={book.title}>{book.title}</p>
+        )}
+        <p className="text-xs text-stone-500">
+          {book.pageCount} {book.pageCount === 1 ? 'page' : 'pages'} · opened {formatOpenedAt(book.openedAt)}
+        </p>
+
+        <div className="flex items-center gap-1 pt-1">
+          <select
+            value={book.shelf ?? ''}
+            onChange={(e) => handleShelfChange(e.target.value)}
+            className="flex-1 min-w-0 text-xs bg-transparent text-stone-500 rounded border border-stone-200 px-1 py-0.5 hover:border-purple-300"
+            title="Move to shelf"
+          >
+            <option value="">No shelf</option>
+            {shelves.map(shelf => <option key={shelf} value={shelf}>{shelf}</option>)}
+            <option value={NEW_SHELF}>New shelf…</option>
+          </select>
+          <button
+            onClick={startRenaming}
+            className="p-1 rounded text-stone-400 hover:text-purple-600 hover:bg-purple-50 transition-colors"
+            title="Rename"
+          >
+            <Pencil size={14} />
+          </button>
+          <button
+            onClick={handleDelete}
+            className="p-1 rounded text-stone-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+            title="Remove from library"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Books loaded before, kept in the browser so they reopen without dropping the folder again.
+ * Books are grouped by shelf, with unshelved books first.
+ */
+export const Library: React.FC<LibraryProps> = ({ books, ...handlers }) => {
+  const shelves = useMemo(
+    () => Array.from(new Set(books.map(b => b.shelf).filter((s): s is string => !!s))).sort((a, b) => a.localeCompare(b)),
+    [books]
+  );
+
+  if (books.length === 0) return null;
+
+  const groups = [
+    { shelf: undefined, books: books.filter(b => !b.shelf) },
+    ...shelves.map(shelf => ({ shelf, books: books.filter(b => b.shelf === shelf) }))
+  ].filter(group => group.books.length > 0);
+
+  return (
+    <div className="w-full max-w-4xl mt-10 space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-700 delay-300">
+      {groups.map(group => (
+        <section key={group.shelf ?? ''}>
+          <h2 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wider text-stone-500 mb-3 px-1">
+            <LibraryIcon size={16} />
+            {group.shelf ?? (shelves.length > 0 ? "Not on a shelf" : "Your library")}
+            <span className="font-normal text-stone-400">{group.books.length}</span>
+          </h2>
+          <ul className="grid gap-4 grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+            {group.books.map(book => (
+              <BookCard key={book.id} book={book} shelves={shelves} {...handlers} />
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ProcessedPage, RedactionPolicy, RevealMode, SearchHit } from '../types';
+import { RedactionOverlay } from './RedactionOverlay';
+import { SearchHighlights } from './SearchHighlights';
+import { AnnotationLayer, AnnotationLayerProps } from './AnnotationLayer';
+import { Loader2 } from 'lucide-react';
+
+export interface PageContentProps extends AnnotationLayerProps {
+  page: ProcessedPage;
+  revealMode: RevealMode;
+  redactionPolicy: RedactionPolicy;
+  searchHits: SearchHit[];
+  activeHit: SearchHit | null;
+}
+
+/**
+ * The rendered page image with its overlays, shared by every reading mode.
+ */
+export const PageContent: React.FC<PageContentProps> = ({ page, revealMode, redactionPolicy, searchHits, activeHit, ...annotationProps }) => {
+  // In reveal mode show the unredacted rendition where there is one
+  const src = (revealMode === 'reveal' && page.originalUrl) || page.url;
+
+  if (page.isPending) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-stone-50 animate-pulse">
+        <Loader2 className="animate-spin text-stone-300" size={32} />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {!page.isBlank && (
+        <img 
+          src={src} 
+          alt={page.name} 
+          className="w-full h-full object-contain p-2" 
+          draggable={false}
+        />
+      )}
+      {revealMode !== 'off' && <RedactionOverlay page={page} policy={redactionPolicy} />}
+      <SearchHighlights page={page} hits={searchHits} activeHit={activeHit} />
+      <AnnotationLayer page={page} {...annotationProps} />
+    </>
+  );
+};
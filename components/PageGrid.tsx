@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { BindingDirection, ProcessedPage } from '../types';
+import { SpreadThumbnail } from './PageThumbnail';
+import { X } from 'lucide-react';
+
+interface PageGridProps {
+  spreads: (ProcessedPage | null)[][]; // The pages at each spread index, from getSpreadPages
+  currentIndex: number;
+  direction: BindingDirection;
+  onSelect: (spreadIndex: number) => void;
+  onClose: () => void;
+}
+
+const THUMBNAIL_HEIGHT = 180;
+
+/**
+ * Full-screen overview of the whole book as a grid of spreads. Picking one goes there and closes the grid.
+ */
+export const PageGrid: React.FC<PageGridProps> = ({ spreads, currentIndex, direction, onSelect, onClose }) => {
+  const pageCount = spreads.reduce((sum, pages) => sum + pages.filter(Boolean).length, 0);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col bg-stone-950/95 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="flex items-center justify-between px-6 py-3 text-stone-100 border-b border-white/10">
+        <h2 className="font-medium">
+          Overview <span className="ml-2 text-sm text-stone-400">{pageCount} {pageCount === 1 ? 'page' : 'pages'}</span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+          title="Close (Esc)"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <div dir={direction} className="flex-1 overflow-y-auto p-8">
+        <div className="flex flex-wrap justify-center items-end gap-x-8 gap-y-6">
+          {spreads.map((pages, i) => (
+            <SpreadThumbnail
+              key={i}
+              pages={pages}
+              height={THUMBNAIL_HEIGHT}
+              isCurrent={i === currentIndex}
+              onClick={() => {
+                onSelect(i);
+                onClose();
+              }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
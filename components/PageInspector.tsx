@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { ProcessedPage } from '../types';
+import { PageContent, PageContentProps } from './PageContent';
+import { ZoomViewport, ZOOM_STEP, clampZoom } from './ZoomViewport';
+import { X, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+
+interface PageInspectorProps extends Omit<PageContentProps, 'page'> {
+  page: ProcessedPage;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 16;
+
+// Room left around the page when fitting it to the window
+const FIT_MARGIN = 96;
+
+/**
+ * Full-screen view of a single page for pixel-peeping.
+ * Zoom 1 is the page's native size (one SVG unit per CSS pixel); the SVG is redrawn at every zoom level.
+ */
+export const PageInspector: React.FC<PageInspectorProps> = ({ page, onClose, ...contentProps }) => {
+  const w = page.width || 595;
+  const h = page.height || 842;
+  const [zoom, setZoom] = useState(1);
+
+  const fitZoom = () => clampZoom(
+    Math.min((window.innerWidth - FIT_MARGIN) / w, (window.innerHeight - FIT_MARGIN) / h),
+    MIN_ZOOM,
+    MAX_ZOOM
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === '+' || e.key === '=') {
+        setZoom(z => clampZoom(z * ZOOM_STEP, MIN_ZOOM, MAX_ZOOM));
+      } else if (e.key === '-') {
+        setZoom(z => clampZoom(z / ZOOM_STEP, MIN_ZOOM, MAX_ZOOM));
+      } else if (e.key === '0') {
+        setZoom(1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col bg-stone-950/95 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="flex items-center justify-between gap-4 px-6 py-3 text-stone-100 border-b border-white/10">
+        <div className="min-w-0">
+          <h2 className="font-semibold truncate">{page.name}</h2>
+          <p className="text-xs text-stone-400 font-mono">
+            {page.label ?? page.index + 1} · {w} × {h}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setZoom(z => clampZoom(z / ZOOM_STEP, MIN_ZOOM, MAX_ZOOM))}
+            className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+            title="Zoom out (-)"
+          >
+            <ZoomOut size={20} />
+          </button>
+          <button
+            onClick={() => setZoom(1)}
+            className="min-w-[64px] px-2 py-1 hover:bg-stone-700 rounded-lg transition-colors font-mono text-sm"
+            title="Native size (0)"
+          >
+            {Math.round(zoom * 100)}%
+          </button>
+          <button
+            onClick={() => setZoom(z => clampZoom(z * ZOOM_STEP, MIN_ZOOM, MAX_ZOOM))}
+            className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+            title="Zoom in (+)"
+          >
+            <ZoomIn size={20} />
+          </button>
+          <button
+            onClick={() => setZoom(fitZoom())}
+            className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+            title="Fit to window"
+          >
+            <Maximize size={20} />
+          </button>
+
+          <div className="w-px h-6 bg-stone-700 mx-2" />
+
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+            title="Close (Esc)"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <ZoomViewport
+        zoom={zoom}
+        onZoomChange={setZoom}
+        minZoom={MIN_ZOOM}
+        maxZoom={MAX_ZOOM}
+        className="flex-1 min-h-0"
+      >
+        <div
+          className="relative bg-white shadow-2xl m-8 shrink-0"
+          // PageContent insets the page by 8px on each side, so add that back to draw it at exactly w × h × zoom
+          style={{ width: w * zoom + 16, height: h * zoom + 16 }}
+        >
+          <PageContent page={page} {...contentProps} />
+        </div>
+      </ZoomViewport>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { X, Eye, EyeOff, Trash2, FilePlus, GripVertical, TriangleAlert } from 'lucide-react';
+import { ProcessedPage } from '../types';
+
+interface PageOrganizerProps {
+  pages: ProcessedPage[];
+  onMovePage: (from: number, to: number) => void;
+  onToggleHidden: (id: string) => void;
+  onDeletePage: (id: string) => void;
+  onInsertBlank: (afterIndex: number) => void;
+  onClose: () => void;
+}
+
+export const PageOrganizer: React.FC<PageOrganizerProps> = ({
+  pages,
+  onMovePage,
+  onToggleHidden,
+  onDeletePage,
+  onInsertBlank,
+  onClose
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    e.dataTransfer.effectAllowed = 'move';
+    setDragIndex(index);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropIndex(index);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null) onMovePage(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDragEnd = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Page numbers follow the reading order, so hidden pages don't get one
+  let pageNumber = 0;
+
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 w-80 max-w-[90vw] bg-stone-900/95 backdrop-blur-md text-stone-100 shadow-2xl z-50 flex flex-col border-l border-white/10 animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-medium">Arrange pages</h2>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+          title="Close"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 grid grid-cols-2 gap-4 content-start">
+        {pages.map((page, i) => {
+          if (!page.hidden) pageNumber += 1;
+
+          return (
+            <div
+              key={page.id}
+              draggable
+              onDragStart={(e) => handleDragStart(e, i)}
+              onDragOver={(e) => handleDragOver(e, i)}
+              onDrop={(e) => handleDrop(e, i)}
+              onDragEnd={handleDragEnd}
+              className={`
+                group relative rounded-lg p-1 transition-all cursor-grab active:cursor-grabbing
+                ${dragIndex === i ? 'opacity-40' : ''}
+                ${dropIndex === i && dragIndex !== i ? 'ring-2 ring-purple-500' : 'ring-1 ring-white/10'}
+              `}
+            >
+              <div
+                className={`relative bg-white rounded overflow-hidden ${page.hidden ? 'opacity-30' : ''}`}
+                style={{ aspectRatio: `${page.width || 595} / ${page.height || 842}` }}
+              >
+                {!page.isBlank && !page.isPending && (
+                  <img src={page.url} alt={page.name} className="w-full h-full object-contain" draggable={false} loading="lazy" />
+                )}
+                <GripVertical size={14} className="absolute top-1 left-1 text-stone-400 opacity-0 group-hover:opacity-100" />
+              </div>
+
+              <div className="mt-1 flex items-center justify-between gap-1 text-xs">
+                <span className="font-mono text-stone-400 truncate" title={page.name}>
+                  {page.hidden ? '–' : page.label ?? pageNumber} · {page.name}
+                </span>
+                {page.diagnostics && page.diagnostics.length > 0 && (
+                  <span title={page.diagnostics.map(d => d.message).join('\n')} className="shrink-0">
+                    <TriangleAlert size={12} className="text-amber-500" />
+                  </span>
+                )}
+              </div>
+
+              <div className="absolute top-2 right-2 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => onToggleHidden(page.id)}
+                  className="p-1 bg-stone-900/80 hover:bg-stone-700 rounded text-stone-300 hover:text-white"
+                  title={page.hidden ? "Show page" : "Hide page"}
+                >
+                  {page.hidden ? <Eye size={14} /> : <EyeOff size={14} />}
+                </button>
+                <button
+                  onClick={() => onInsertBlank(i)}
+                  className="p-1 bg-stone-900/80 hover:bg-stone-700 rounded text-stone-300 hover:text-white"
+                  title="Insert blank page after"
+                >
+                  <FilePlus size={14} />
+                </button>
+                <button
+                  onClick={() => onDeletePage(page.id)}
+                  className="p-1 bg-stone-900/80 hover:bg-red-700 rounded text-stone-300 hover:text-white"
+                  title="Remove page"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
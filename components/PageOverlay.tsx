@@ -0,0 +1,31 @@
+import React from 'react';
+import { ProcessedPage } from '../types';
+
+interface PageOverlayProps {
+  page: ProcessedPage;
+  children: (unit: number) => React.ReactNode;
+  // Pointer handlers for an overlay that is drawn on; the overlay only catches the pointer while it has them
+  drawingProps?: React.SVGProps<SVGSVGElement>;
+}
+
+// Stroke and label size that reads the same on any page, in viewBox units
+export const getOverlayUnit = (page: ProcessedPage): number => Math.max(page.width || 595, page.height || 842) / 400;
+
+/**
+ * An SVG laid over a page image, drawn in the page's own viewBox units so it lines up at any size.
+ * Children get a unit that keeps strokes and labels readable whatever the page's scale is.
+ */
+export const PageOverlay: React.FC<PageOverlayProps> = ({ page, children, drawingProps }) => {
+  const width = page.width || 595;
+  const height = page.height || 842;
+  const unit = getOverlayUnit(page);
+
+  return (
+    // Matches the p-2 inset of the page image
+    <div className={`absolute inset-2 ${drawingProps ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}>
+      <svg className="w-full h-full" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" {...drawingProps}>
+        {children(unit)}
+      </svg>
+    </div>
+  );
+};
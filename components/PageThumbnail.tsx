@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessedPage } from '../types';
+import { getCachedPageThumbnail, getPageThumbnail } from '../utils/thumbnailUtils';
+
+interface PageThumbnailProps {
+  page: ProcessedPage | null; // null draws the blank spacer
+  height: number; // In CSS pixels; the width follows the page's aspect ratio
+}
+
+/**
+ * A small picture of a page, drawn from its rendition once it comes near the screen and cached from then on.
+ */
+export const PageThumbnail: React.FC<PageThumbnailProps> = ({ page, height }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isNear, setIsNear] = useState(false);
+  const [src, setSrc] = useState(() => page && getCachedPageThumbnail(page.url));
+  const canRender = !!page && !page.isBlank && !page.isPending;
+
+  // Only pages near the screen are drawn; leaving before our turn in the queue drops the request
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || !canRender) return;
+    const observer = new IntersectionObserver(([entry]) => setIsNear(entry.isIntersecting), { rootMargin: '200px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [canRender]);
+
+  useEffect(() => {
+    if (!page || !canRender || !isNear) return;
+    const cached = getCachedPageThumbnail(page.url);
+    if (cached) {
+      setSrc(cached);
+      return;
+    }
+    const request = new AbortController();
+    getPageThumbnail(page.url, page.width || 595, page.height || 842, request.signal)
+      .then(setSrc)
+      .catch(error => {
+        if (!request.signal.aborted) console.warn("Error creating page thumbnail:", page.name, error);
+      });
+    return () => request.abort();
+  }, [page?.url, canRender, isNear]);
+
+  const ratio = (page?.width || 595) / (page?.height || 842);
+
+  return (
+    <div
+      ref={ref}
+      className={`shrink-0 overflow-hidden ${page?.isPending || (canRender && !src) ? 'animate-pulse bg-stone-100' : 'bg-white'}`}
+      style={{ height, width: height * ratio }}
+    >
+      {canRender && src && <img src={src} alt={page!.name} className="w-full h-full object-contain" draggable={false} />}
+    </div>
+  );
+};
+
+interface SpreadThumbnailProps {
+  pages: (ProcessedPage | null)[]; // As getSpreadPages lays them out
+  height: number;
+  isCurrent: boolean;
+  onClick: () => void;
+}
+
+/**
+ * One stop of the overview: the pages of a spread side by side, with their numbers, jumping there when clicked.
+ * The current spread keeps itself in view.
+ */
+export const SpreadThumbnail: React.FC<SpreadThumbnailProps> = ({ pages, height, isCurrent, onClick }) => {
+  const ref = useRef<HTMLButtonElement>(null);
+  const numbers = pages.filter((p): p is ProcessedPage => !!p).map(p => p.label ?? `${p.index + 1}`);
+
+  useEffect(() => {
+    if (isCurrent) ref.current?.scrollIntoView({ block: 'nearest', inline: 'center', behavior: 'smooth' });
+  }, [isCurrent]);
+
+  return (
+    <button
+      ref={ref}
+      onClick={onClick}
+      className="shrink-0 flex flex-col items-center gap-1 group"
+      title={`Go to ${numbers.length > 1 ? 'pages' : 'page'} ${numbers.join('–')}`}
+    >
+      <div className={`
+        flex shadow-md rounded-sm overflow-hidden transition-all
+        ${isCurrent ? 'ring-2 ring-purple-500 ring-offset-2 ring-offset-stone-900' : 'ring-1 ring-white/10 group-hover:ring-purple-300/60'}
+      `}>
+        {pages.map((page, i) => <PageThumbnail key={page?.id ?? `spacer-${i}`} page={page} height={height} />)}
+      </div>
+      <span className={`font-mono text-xs ${isCurrent ? 'text-purple-200' : 'text-stone-400 group-hover:text-stone-200'}`}>
+        {numbers.join('–')}
+      </span>
+    </button>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { ProcessedPage, RedactionPolicy } from '../types';
+import { PageOverlay } from './PageOverlay';
+
+interface RedactionOverlayProps {
+  page: ProcessedPage;
+  policy: RedactionPolicy;
+}
+
+/**
+ * Outlines each region the current policy redacts, labelled with its data-tags value.
+ */
+export const RedactionOverlay: React.FC<RedactionOverlayProps> = ({ page, policy }) => {
+  const disabled = new Set(policy.disabledTags);
+  const regions = (page.redactionRegions || []).filter(r => r.tags.some(t => !disabled.has(t)));
+  if (regions.length === 0) return null;
+
+  return (
+    <PageOverlay page={page}>
+      {(unit) => regions.map((region, i) => (
+        <g key={i}>
+          <rect
+            x={region.x}
+            y={region.y}
+            width={region.width}
+            height={region.height}
+            fill="rgba(147, 51, 234, 0.12)"
+            stroke="rgb(147, 51, 234)"
+            strokeWidth={unit}
+            strokeDasharray={`${unit * 3} ${unit * 2}`}
+          />
+          <text
+            x={region.x}
+            y={Math.max(unit * 7, region.y - unit * 2)}
+            fontSize={unit * 7}
+            fontFamily="monospace"
+            fill="rgb(107, 33, 168)"
+            stroke="white"
+            strokeWidth={unit * 2}
+            paintOrder="stroke"
+          >
+            {region.label}
+          </text>
+        </g>
+      ))}
+    </PageOverlay>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { X, ShieldCheck, ShieldOff } from 'lucide-react';
+import { RedactionPolicy } from '../types';
+import { getRedactionMethod } from '../utils/redactionUtils';
+
+interface RedactionPanelProps {
+  tags: { tag: string; pageCount: number }[];
+  policy: RedactionPolicy;
+  onChange: (policy: RedactionPolicy) => void;
+  onClose: () => void;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  'blur': 'Blur',
+  'black-box': 'Black box',
+  'pixelate': 'Pixelate',
+  'hide': 'Hide'
+};
+
+export const RedactionPanel: React.FC<RedactionPanelProps> = ({ tags, policy, onChange, onClose }) => {
+  const disabled = new Set(policy.disabledTags);
+
+  const toggleTag = (tag: string) => {
+    const disabledTags = disabled.has(tag)
+      ? policy.disabledTags.filter(t => t !== tag)
+      : [...policy.disabledTags, tag];
+    onChange({ ...policy, disabledTags });
+  };
+
+  return (
+    <div className="fixed bottom-28 left-1/2 -translate-x-1/2 w-96 max-w-[90vw] bg-stone-900/95 backdrop-blur-md text-stone-100 rounded-2xl shadow-2xl z-50 border border-white/10 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-medium">Redaction</h2>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+          title="Close"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto p-2">
+        {tags.map(({ tag, pageCount }) => {
+          const isRedacted = !disabled.has(tag);
+          return (
+            <li key={tag}>
+              <label className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-stone-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isRedacted}
+                  onChange={() => toggleTag(tag)}
+                  className="accent-purple-500"
+                />
+                <span className="flex-1 font-mono text-sm truncate" title={tag}>{tag}</span>
+                <span className="text-xs text-stone-400">
+                  {METHOD_LABELS[getRedactionMethod(tag)]} · {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+                </span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-2 px-4 py-3 border-t border-white/10 text-sm">
+        <button
+          onClick={() => onChange({ ...policy, disabledTags: [] })}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-stone-700 text-stone-300 hover:text-white"
+          title="Redact every tag (public edition)"
+        >
+          <ShieldCheck size={16} /> Redact all
+        </button>
+        <button
+          onClick={() => onChange({ ...policy, disabledTags: tags.map(t => t.tag) })}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-stone-700 text-stone-300 hover:text-white"
+          title="Show everything (internal edition)"
+        >
+          <ShieldOff size={16} /> Redact none
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessedPage } from '../types';
+import { PageContent, PageContentProps } from './PageContent';
+import { ZoomViewport } from './ZoomViewport';
+
+interface ScrollReaderProps extends Omit<PageContentProps, 'page'> {
+  pages: ProcessedPage[];
+  pageIndex: number;
+  onPageChange: (pageIndex: number) => void;
+  zoom: number;
+  minZoom: number;
+  maxZoom: number;
+  onZoomChange: (zoom: number) => void;
+  onInspectPage: (page: ProcessedPage) => void;
+  reservedHeight?: number; // Pixels kept free below the pages, e.g. for the filmstrip
+}
+
+/**
+ * Every page in one vertical column. Page images are only mounted once they come near the viewport.
+ */
+export const ScrollReader: React.FC<ScrollReaderProps> = ({
+  pages, pageIndex, onPageChange, zoom, minZoom, maxZoom, onZoomChange, onInspectPage, reservedHeight = 0, ...contentProps
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const [renderedIds, setRenderedIds] = useState<Set<string>>(new Set());
+  // The page we last reported or scrolled to, so our own scroll events don't trigger another scroll
+  const currentIndexRef = useRef(pageIndex);
+  const hasScrolledToStartRef = useRef(false);
+
+  // Lazily mount pages as they approach the viewport
+  useEffect(() => {
+    const root = scrollRef.current;
+    if (!root) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      const entering = entries.filter(e => e.isIntersecting).map(e => (e.target as HTMLElement).dataset.pageId!);
+      if (entering.length === 0) return;
+      setRenderedIds(prev => {
+        const next = new Set(prev);
+        entering.forEach(id => next.add(id));
+        return next;
+      });
+    }, { root, rootMargin: '100% 0px' });
+
+    pageRefs.current.forEach(el => observer.observe(el));
+    return () => observer.disconnect();
+  }, [pages]);
+
+  // Track the page nearest the middle of the viewport as the current page
+  useEffect(() => {
+    const root = scrollRef.current;
+    if (!root) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      const visible = entries.filter(e => e.isIntersecting);
+      if (visible.length === 0) return;
+      const index = Number((visible[0].target as HTMLElement).dataset.pageIndex);
+      if (index !== currentIndexRef.current) {
+        currentIndexRef.current = index;
+        onPageChange(index);
+      }
+    }, { root, rootMargin: '-50% 0px -50% 0px' });
+
+    pageRefs.current.forEach(el => observer.observe(el));
+    return () => observer.disconnect();
+  }, [pages, onPageChange]);
+
+  // Start on the current page, then follow navigation that came from outside (buttons, keyboard, search)
+  useEffect(() => {
+    if (hasScrolledToStartRef.current && pageIndex === currentIndexRef.current) return;
+    hasScrolledToStartRef.current = true;
+    currentIndexRef.current = pageIndex;
+    const page = pages[pageIndex];
+    if (page) pageRefs.current.get(page.id)?.scrollIntoView({ block: 'start' });
+  }, [pageIndex, pages]);
+
+  return (
+    <ZoomViewport
+      zoom={zoom}
+      minZoom={minZoom}
+      maxZoom={maxZoom}
+      onZoomChange={onZoomChange}
+      viewportRef={scrollRef}
+      className={`w-full h-[calc(85vh-${reservedHeight}px)]`}
+    >
+      <div className="flex flex-col items-center gap-6 py-6 px-4">
+        {pages.map((page, i) => (
+          <div
+            key={page.id}
+            ref={(el) => {
+              if (el) pageRefs.current.set(page.id, el);
+              else pageRefs.current.delete(page.id);
+            }}
+            data-page-id={page.id}
+            data-page-index={i}
+            className="relative shadow-2xl bg-white rounded-lg overflow-hidden"
+            style={{ width: `calc(min(90vw, 800px) * ${zoom})`, aspectRatio: `${page.width || 595} / ${page.height || 842}` }}
+            onDoubleClick={() => onInspectPage(page)}
+          >
+            {renderedIds.has(page.id) && <PageContent page={page} {...contentProps} />}
+            <div className="absolute bottom-2 right-4 text-xs text-stone-400 font-mono">
+              {page.label ?? page.index + 1}
+            </div>
+          </div>
+        ))}
+      </div>
+    </ZoomViewport>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { ProcessedPage, SearchHit } from '../types';
+import { PageOverlay } from './PageOverlay';
+
+interface SearchHighlightsProps {
+  page: ProcessedPage;
+  hits: SearchHit[];
+  activeHit: SearchHit | null;
+}
+
+/**
+ * Marks the text runs that contain search matches on a page.
+ */
+export const SearchHighlights: React.FC<SearchHighlightsProps> = ({ page, hits, activeHit }) => {
+  const pageHits = hits.filter(h => h.pageId === page.id);
+  if (pageHits.length === 0 || !page.textRuns) return null;
+
+  const activeRuns = new Set(activeHit?.pageId === page.id ? activeHit.runIndices : []);
+  const runs = Array.from(new Set<number>(pageHits.flatMap(h => h.runIndices)));
+
+  return (
+    <PageOverlay page={page}>
+      {(unit) => runs.map(i => {
+        const box = page.textRuns![i].box;
+        if (!box) return null;
+        const isActive = activeRuns.has(i);
+        return (
+          <rect
+            key={i}
+            x={box.x - unit}
+            y={box.y - unit}
+            width={box.width + unit * 2}
+            height={box.height + unit * 2}
+            rx={unit}
+            fill={isActive ? 'rgba(250, 204, 21, 0.55)' : 'rgba(250, 204, 21, 0.3)'}
+            stroke={isActive ? 'rgb(202, 138, 4)' : 'none'}
+            strokeWidth={unit / 2}
+            style={{ mixBlendMode: 'multiply' }}
+          />
+        );
+      })}
+    </PageOverlay>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef } from 'react';
+import { X, Search } from 'lucide-react';
+import { ProcessedPage, SearchHit } from '../types';
+
+interface SearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  hits: SearchHit[];
+  activeHit: SearchHit | null;
+  pages: ProcessedPage[];
+  onSelectHit: (hit: SearchHit) => void;
+  onClose: () => void;
+}
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({
+  query,
+  onQueryChange,
+  hits,
+  activeHit,
+  pages,
+  onSelectHit,
+  onClose
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const pageLabel = (hit: SearchHit) => {
+    const page = pages[hit.pageIndex];
+    return page?.label ?? `${hit.pageIndex + 1}`;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter' && hits.length > 0) {
+      // Enter steps through the hits, Shift+Enter steps back
+      const current = activeHit ? hits.indexOf(activeHit) : -1;
+      const step = e.shiftKey ? -1 : 1;
+      onSelectHit(hits[(current + step + hits.length) % hits.length]);
+    }
+  };
+
+  return (
+    <aside className="fixed top-0 left-0 bottom-0 w-80 max-w-[90vw] bg-stone-900/95 backdrop-blur-md text-stone-100 shadow-2xl z-50 flex flex-col border-r border-white/10 animate-in slide-in-from-left duration-300">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-white/10">
+        <Search size={18} className="text-stone-400 shrink-0" />
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search the book"
+          className="flex-1 bg-transparent outline-none placeholder:text-stone-500"
+        />
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-stone-700 rounded-lg transition-colors text-stone-400 hover:text-white"
+          title="Close"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {query.trim() && (
+        <div className="px-4 py-2 text-xs text-stone-400 border-b border-white/10">
+          {hits.length === 0 ? 'No matches' : `${hits.length} ${hits.length === 1 ? 'match' : 'matches'}`}
+        </div>
+      )}
+
+      <ul className="flex-1 overflow-y-auto p-2">
+        {hits.map((hit, i) => (
+          <li key={`${hit.pageId}-${i}`}>
+            <button
+              onClick={() => onSelectHit(hit)}
+              className={`
+                w-full text-left px-3 py-2 rounded-lg transition-colors text-sm
+                ${hit === activeHit ? 'bg-purple-600/30' : 'hover:bg-stone-800'}
+              `}
+            >
+              <span className="block font-mono text-xs text-stone-400 mb-0.5">Page {pageLabel(hit)}</span>
+              <span className="text-stone-300">
+                {hit.before}
+                <mark className="bg-yellow-400/80 text-stone-900 rounded px-0.5">{hit.match}</mark>
+                {hit.after}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
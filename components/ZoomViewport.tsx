@@ -0,0 +1,136 @@
+import React, { useLayoutEffect, useRef } from 'react';
+
+interface ZoomViewportProps {
+  zoom: number;
+  onZoomChange: (zoom: number) => void;
+  minZoom: number;
+  maxZoom: number;
+  className?: string;
+  // Lets the parent observe or scroll the viewport itself
+  viewportRef?: React.RefObject<HTMLDivElement | null>;
+  children: React.ReactNode;
+}
+
+// Zoom factor applied per pixel of wheel delta
+const WHEEL_ZOOM_STEP = 1.0015;
+// Zoom factor applied per button press or key press
+export const ZOOM_STEP = 1.25;
+
+export const clampZoom = (zoom: number, min: number, max: number) => Math.min(max, Math.max(min, zoom));
+
+/**
+ * A scrollable viewport for zoomed content: ctrl/⌘ + wheel or trackpad pinch zooms around the cursor,
+ * two-finger touch pinches, and dragging pans.
+ * Children are expected to size themselves from `zoom` (rather than be CSS-scaled) so SVGs re-render sharply.
+ */
+export const ZoomViewport: React.FC<ZoomViewportProps> = ({ zoom, onZoomChange, minZoom, maxZoom, className = '', viewportRef: externalRef, children }) => {
+  const ownRef = useRef<HTMLDivElement>(null);
+  const viewportRef = externalRef ?? ownRef;
+  // Content point (in unzoomed units) to keep under the given viewport position after the next zoom change
+  const anchorRef = useRef<{ x: number; y: number; viewportX: number; viewportY: number } | null>(null);
+  const zoomRef = useRef(zoom);
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+
+  const zoomAround = (nextZoom: number, clientX: number, clientY: number) => {
+    const viewport = viewportRef.current;
+    const clamped = clampZoom(nextZoom, minZoom, maxZoom);
+    if (!viewport || clamped === zoomRef.current) return;
+
+    const rect = viewport.getBoundingClientRect();
+    const viewportX = clientX - rect.left;
+    const viewportY = clientY - rect.top;
+    anchorRef.current = {
+      x: (viewport.scrollLeft + viewportX) / zoomRef.current,
+      y: (viewport.scrollTop + viewportY) / zoomRef.current,
+      viewportX,
+      viewportY
+    };
+    onZoomChange(clamped);
+  };
+
+  // Restore the anchor once the content has been laid out at the new size.
+  // Zoom changes from outside (buttons, keyboard) keep the centre of the viewport in place.
+  useLayoutEffect(() => {
+    const previousZoom = zoomRef.current;
+    zoomRef.current = zoom;
+    const viewport = viewportRef.current;
+    if (!viewport || previousZoom === zoom) return;
+    const anchor = anchorRef.current ?? {
+      x: (viewport.scrollLeft + viewport.clientWidth / 2) / previousZoom,
+      y: (viewport.scrollTop + viewport.clientHeight / 2) / previousZoom,
+      viewportX: viewport.clientWidth / 2,
+      viewportY: viewport.clientHeight / 2
+    };
+    viewport.scrollLeft = anchor.x * zoom - anchor.viewportX;
+    viewport.scrollTop = anchor.y * zoom - anchor.viewportY;
+    anchorRef.current = null;
+  }, [zoom]);
+
+  // Wheel has to be a non-passive native listener, otherwise preventDefault can't stop the browser zooming the page
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      // Trackpad pinches arrive as wheel events with ctrlKey set
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomAround(zoomRef.current * Math.pow(WHEEL_ZOOM_STEP, -e.deltaY), e.clientX, e.clientY);
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    // No pointer capture, so clicks and double-clicks still reach the content
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    const viewport = viewportRef.current;
+    if (!previous || !viewport) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size === 2) {
+      const [a, b] = Array.from(pointers.values());
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (!pinchRef.current) {
+        pinchRef.current = { distance, zoom: zoomRef.current };
+      } else {
+        zoomAround(pinchRef.current.zoom * (distance / pinchRef.current.distance), (a.x + b.x) / 2, (a.y + b.y) / 2);
+      }
+      return;
+    }
+
+    // Drag to pan
+    viewport.scrollLeft -= e.clientX - previous.x;
+    viewport.scrollTop -= e.clientY - previous.y;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = null;
+  };
+
+  return (
+    <div
+      ref={viewportRef}
+      className={`overflow-auto touch-none ${zoom > minZoom ? 'cursor-grab active:cursor-grabbing' : ''} ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+    >
+      {/* Grows with the content but stays at least viewport-sized, so small content stays centred */}
+      <div className="min-w-full min-h-full w-max h-max flex items-center justify-center">
+        {children}
+      </div>
+    </div>
+  );
+};
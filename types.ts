@@ -5,6 +5,211 @@ export interface ProcessedPage {
   index: number;
   width?: number;
   height?: number;
+  redacted?: boolean; // True if any element was redacted via data-tags
+  hidden?: boolean; // Kept in the page list but skipped when reading
+  isBlank?: boolean; // Inserted by hand; has no SVG behind it
+  isPending?: boolean; // Still being processed; has no rendition yet
+  isWide?: boolean; // Tagged "wide" on its root <svg>, so it fills a whole spread; see isWidePage for the automatic case
+  label?: string; // Shown instead of the page number, e.g. "iv" or "Plate 3"
+  title?: string; // Text of the root <svg>'s <title>
+  folder?: string; // Folder the page came from, relative to the book's top folder; '' for the top folder itself
+  chapters?: ChapterHeading[]; // Headings book.json starts at this page, in its order
+  bookmark?: Bookmark;
+  redactionTags?: string[]; // Distinct redact* tags found on the page
+  layerTags?: string[]; // Distinct other tags found below the root <svg>, which can be shown or hidden as layers
+  source?: string; // Asset-inlined SVG before redaction, kept so redactions can be re-applied
+  originalUrl?: string; // Blob URL of the unredacted rendition with every layer, for pages with redaction or layer tags
+  redactionRegions?: RedactionRegion[];
+  textRuns?: TextRun[]; // Text content in document order, for search
+  diagnostics?: Diagnostic[]; // Problems found while loading this page
+  annotations?: Annotation[]; // Review notes pinned to the page
+}
+
+// A heading in the table of contents; level 1 is the outermost
+export interface ChapterHeading {
+  title: string;
+  level: number;
+}
+
+// A table of contents entry, pointing at the page its chapter starts on
+export interface ContentsEntry extends ChapterHeading {
+  pageIndex: number; // Position in the reading order
+}
+
+// A place the reader marked, kept on the page it points at
+export interface Bookmark {
+  label?: string;
+  createdAt: number;
+}
+
+// missing-asset: a link that matches no file; ambiguous-asset: a link that only matches by name, and several files have it;
+// unused-asset: a file no page links to; parse-error: the SVG is not well-formed;
+// duplicate-name: several pages share a name; default-size: the page has no usable size and was given 595×842
+export type DiagnosticKind = 'missing-asset' | 'ambiguous-asset' | 'unused-asset' | 'parse-error' | 'duplicate-name' | 'default-size';
+
+// A problem in the source folder, worded for the book's author
+export interface Diagnostic {
+  kind: DiagnosticKind;
+  message: string;
+}
+
+// A leaf text element (<text>, <tspan> or <textPath>) of a page
+export interface TextRun {
+  text: string;
+  box?: Box; // Missing if the run could not be measured
+  redactionTags: string[]; // Redaction tags on the run or its ancestors
+  layerTags?: string[]; // Layer tags on the run or its ancestors; missing for pages stored before layers
+}
+
+export interface SearchHit {
+  pageId: string;
+  pageIndex: number; // Position in the reading order
+  before: string;
+  match: string;
+  after: string;
+  runIndices: number[]; // Text runs the match spans, for highlighting
+}
+
+// Rectangle in a page's viewBox units, relative to the viewBox origin
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Bounding box of a redaction-tagged element
+export interface RedactionRegion extends Box {
+  tags: string[]; // The element's redact* tags
+  label: string; // The raw data-tags value
+}
+
+// What an annotation marks, in the page's viewBox units like Box.
+// pin: a point; rect: a highlighted area; freehand: a stroke drawn by hand
+export type AnnotationShape =
+  | { kind: 'pin'; x: number; y: number }
+  | ({ kind: 'rect' } & Box)
+  | { kind: 'freehand'; points: [number, number][] };
+
+export type AnnotationTool = AnnotationShape['kind'];
+
+export interface AnnotationComment {
+  id: string;
+  text: string;
+  author?: string;
+  createdAt: number;
+}
+
+// A mark on a page and the review thread about it; the first comment opens the thread
+export interface Annotation {
+  id: string;
+  shape: AnnotationShape;
+  comments: AnnotationComment[];
+  resolved?: boolean;
+  createdAt: number;
+}
+
+// off: redacted pages only; highlight: redacted pages with regions outlined; reveal: original pages with regions outlined
+export type RevealMode = 'off' | 'highlight' | 'reveal';
+
+export type RedactionMethod = 'blur' | 'black-box' | 'pixelate' | 'hide';
+
+// How pages are rendered: which redactions apply and which tag layers are shown
+export interface RedactionPolicy {
+  disabledTags: string[]; // Redaction tags left unredacted in this session
+  hiddenLayers: string[]; // Layer tags whose elements are hidden; saved with the book
+}
+
+// Contents of an optional book.json in the dropped folder
+export interface BookManifest {
+  title?: string;
+  author?: string;
+  pages?: string[]; // Explicit reading order by file name
+  cover?: string | false; // Cover page file name, or false for no cover
+  spacer?: boolean;
+  direction?: BindingDirection;
+  labels?: Record<string, string>; // File name -> page label
+  chapters?: { title: string; page: string; level?: number }[]; // Table of contents by the file name each chapter starts on
+  hiddenLayers?: string[]; // Layer tags hidden until the reader shows them
+  // Whether raster images that no SVG links to are pages, e.g. scans. Defaults to true only for books without SVG pages.
+  imagePages?: boolean;
+}
+
+// Book-level settings derived from the manifest; undefined means "use the app default"
+export interface BookMetadata {
+  title?: string;
+  author?: string;
+  hasCover?: boolean;
+  useSpacer?: boolean;
+  direction?: BindingDirection;
+  hiddenLayers?: string[];
+}
+
+export interface ProcessedBook {
+  pages: ProcessedPage[];
+  metadata: BookMetadata;
+  name?: string; // The folder or archive the book was loaded from
+  diagnostics: Diagnostic[]; // Problems that concern the book as a whole rather than one page
+}
+
+// spread: two facing pages; single: one page at a time; scroll: every page in a vertical column
+export type ReadingMode = 'spread' | 'single' | 'scroll';
+
+// ltr: bound on the left edge and read left to right; rtl: bound on the right edge, as for Arabic or manga
+export type BindingDirection = 'ltr' | 'rtl';
+
+export interface Spread {
+  left: ProcessedPage | null;
+  right: ProcessedPage | null;
+  isCoverView: boolean;
+  leftIsSpacer: boolean; // Blank page shown on the left to push the first page to the right
+  isWide: boolean; // A single wide page, in `left`, spanning both sides
+}
+
+// How far processFiles has got with a book.
+// It first collects the files ('collecting'), then processes the pages one by one ('processing').
+export interface BindingProgress {
+  stage: 'collecting' | 'processing';
+  filesFound: number; // Archive contents included
+  assetsRead: number; // Only assets that some page links to are read
+  pagesDone: number;
+  pagesTotal: number; // 0 until the files are collected
+}
+
+// Where the reader was and how the book was laid out, saved so it can be reopened as it was left
+export interface ReaderSettings {
+  spreadIndex: number;
+  hasCover: boolean;
+  useSpacer: boolean;
+  readingMode: ReadingMode;
+  direction: BindingDirection;
+  hiddenLayers?: string[]; // Missing for books saved before layers; the manifest's defaults apply then
+}
+
+// What a link in the URL hash points at: a book, a page in it, and optionally how to lay the book out
+export interface ReaderLocation {
+  bookId: string;
+  title?: string; // Finds the book in another browser's library, where it has a different id
+  pageIndex?: number; // The page's ProcessedPage.index, i.e. its printed number - 1
+  readingMode?: ReadingMode;
+  hasCover?: boolean;
+  useSpacer?: boolean;
+}
+
+// A page as kept in the library: blob URLs don't survive a reload, so they are recreated from `source`
+export type StoredPage = Omit<ProcessedPage, 'url' | 'originalUrl'>;
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  pageCount: number;
+  metadata: BookMetadata;
+  settings: ReaderSettings;
+  thumbnail?: string; // Small JPEG data URL of the first page
+  shelf?: string; // Unshelved when missing
+  diagnostics?: Diagnostic[]; // Book-wide problems found when it was loaded
+  addedAt: number;
+  openedAt: number;
 }
 
 export interface BookState {
@@ -0,0 +1,197 @@
+import { Annotation, AnnotationComment, AnnotationShape, Box, ProcessedPage } from '../types';
+
+const FILE_VERSION = 1;
+
+/**
+ * Raised when an annotations file cannot be imported.
+ * The message is meant to be shown to the user as-is.
+ */
+export class AnnotationsFileError extends Error {
+  constructor(message: string) {
+    super(`Annotations file: ${message}`);
+    this.name = 'AnnotationsFileError';
+  }
+}
+
+/**
+ * Converts a pointer position to the viewBox units of an overlay SVG, wherever it is laid out and however it is zoomed.
+ */
+export const toViewBoxPoint = (svg: SVGSVGElement, clientX: number, clientY: number): [number, number] => {
+  const matrix = svg.getScreenCTM();
+  if (!matrix) return [0, 0];
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+  return [point.x, point.y];
+};
+
+/**
+ * The rectangle spanned by two corners, whichever way it was dragged.
+ */
+export const boxFromCorners = ([x1, y1]: [number, number], [x2, y2]: [number, number]): Box => ({
+  x: Math.min(x1, x2),
+  y: Math.min(y1, y2),
+  width: Math.abs(x2 - x1),
+  height: Math.abs(y2 - y1)
+});
+
+/**
+ * Where a thread's marker goes: the pin itself, or the top-left corner of a highlight.
+ */
+export const getAnchor = (shape: AnnotationShape): [number, number] => {
+  if (shape.kind !== 'freehand') return [shape.x, shape.y];
+  return shape.points.reduce(([x, y], [px, py]) => [Math.min(x, px), Math.min(y, py)], shape.points[0] ?? [0, 0]);
+};
+
+export const createAnnotation = (shape: AnnotationShape): Annotation => ({
+  id: crypto.randomUUID(),
+  shape,
+  comments: [],
+  createdAt: Date.now()
+});
+
+export const createComment = (text: string, author?: string): AnnotationComment => ({
+  id: crypto.randomUUID(),
+  text,
+  author: author || undefined,
+  createdAt: Date.now()
+});
+
+/**
+ * Replaces one page's annotations with what `update` makes of them.
+ */
+export const updatePageAnnotations = (
+  pages: ProcessedPage[],
+  pageId: string,
+  update: (annotations: Annotation[]) => Annotation[]
+): ProcessedPage[] => pages.map(p => p.id === pageId ? { ...p, annotations: update(p.annotations ?? []) } : p);
+
+/**
+ * Every annotation in the book, with its page, in page order.
+ */
+export const listAnnotations = (pages: ProcessedPage[]): { page: ProcessedPage; annotation: Annotation }[] =>
+  pages.flatMap(page => (page.annotations ?? []).map(annotation => ({ page, annotation })));
+
+/**
+ * Serialises the book's annotations as JSON keyed by page file name, so they can be shared and imported into
+ * another copy of the book. Blank pages have no file to match, so their annotations are left out.
+ */
+export const exportAnnotations = (pages: ProcessedPage[]): string => {
+  const byName: Record<string, Annotation[]> = {};
+  pages.forEach(page => {
+    if (page.isBlank || !page.annotations?.length) return;
+    byName[page.name] = [...(byName[page.name] ?? []), ...page.annotations];
+  });
+  return JSON.stringify({ version: FILE_VERSION, pages: byName }, null, 2);
+};
+
+/**
+ * Offers the book's annotations as a file download.
+ */
+export const downloadAnnotations = (pages: ProcessedPage[], title: string) => {
+  const url = URL.createObjectURL(new Blob([exportAnnotations(pages)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${title || 'book'} annotations.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseShape = (raw: unknown, where: string): AnnotationShape => {
+  if (!isObject(raw)) throw new AnnotationsFileError(`${where}: "shape" must be an object`);
+  if (raw.kind === 'pin' && isNumber(raw.x) && isNumber(raw.y)) {
+    return { kind: 'pin', x: raw.x, y: raw.y };
+  }
+  if (raw.kind === 'rect' && [raw.x, raw.y, raw.width, raw.height].every(isNumber)) {
+    return { kind: 'rect', x: raw.x as number, y: raw.y as number, width: raw.width as number, height: raw.height as number };
+  }
+  if (raw.kind === 'freehand' && Array.isArray(raw.points)
+    && raw.points.every(p => Array.isArray(p) && p.length === 2 && p.every(isNumber))) {
+    return { kind: 'freehand', points: raw.points as [number, number][] };
+  }
+  throw new AnnotationsFileError(`${where}: "shape" is not a pin, rect or freehand shape`);
+};
+
+const parseComment = (raw: unknown, where: string): AnnotationComment => {
+  if (!isObject(raw) || typeof raw.text !== 'string') throw new AnnotationsFileError(`${where}: each comment needs a "text"`);
+  return {
+    id: typeof raw.id === 'string' ? raw.id : crypto.randomUUID(),
+    text: raw.text,
+    author: typeof raw.author === 'string' ? raw.author : undefined,
+    createdAt: isNumber(raw.createdAt) ? raw.createdAt : Date.now()
+  };
+};
+
+const parseAnnotation = (raw: unknown, where: string): Annotation => {
+  if (!isObject(raw)) throw new AnnotationsFileError(`${where}: each annotation must be an object`);
+  if (raw.comments !== undefined && !Array.isArray(raw.comments)) throw new AnnotationsFileError(`${where}: "comments" must be an array`);
+  return {
+    id: typeof raw.id === 'string' ? raw.id : crypto.randomUUID(),
+    shape: parseShape(raw.shape, where),
+    comments: ((raw.comments as unknown[] | undefined) ?? []).map(c => parseComment(c, where)),
+    resolved: raw.resolved === true || undefined,
+    createdAt: isNumber(raw.createdAt) ? raw.createdAt : Date.now()
+  };
+};
+
+/**
+ * Reads an exported annotations file into annotations by page file name.
+ */
+export const parseAnnotationsFile = (text: string): Record<string, Annotation[]> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new AnnotationsFileError(`not valid JSON (${e instanceof Error ? e.message : e})`);
+  }
+  if (!isObject(raw) || !isObject(raw.pages)) throw new AnnotationsFileError('expected an object with "pages"');
+  if (isNumber(raw.version) && raw.version > FILE_VERSION) {
+    throw new AnnotationsFileError('written by a newer version of the reader');
+  }
+
+  const byName: Record<string, Annotation[]> = {};
+  for (const [name, list] of Object.entries(raw.pages)) {
+    if (!Array.isArray(list)) throw new AnnotationsFileError(`"${name}" must list annotations`);
+    byName[name] = list.map(a => parseAnnotation(a, `"${name}"`));
+  }
+  return byName;
+};
+
+// Comments are merged by id, so importing the same file twice, or a colleague's copy of our own notes, adds nothing twice
+const mergeAnnotation = (existing: Annotation, imported: Annotation): Annotation => {
+  const ids = new Set(existing.comments.map(c => c.id));
+  const comments = [...existing.comments, ...imported.comments.filter(c => !ids.has(c.id))]
+    .sort((a, b) => a.createdAt - b.createdAt);
+  return { ...existing, comments, resolved: existing.resolved || imported.resolved };
+};
+
+/**
+ * Adds imported annotations to the pages with matching file names (ignoring case).
+ * Returns the names that match no page, so the user can be told what was left out.
+ */
+export const importAnnotations = (
+  pages: ProcessedPage[],
+  imported: Record<string, Annotation[]>
+): { pages: ProcessedPage[]; unmatchedNames: string[] } => {
+  const unmatchedNames: string[] = [];
+  let next = pages;
+  for (const [name, annotations] of Object.entries(imported)) {
+    const page = pages.find(p => !p.isBlank && p.name.toLowerCase() === name.toLowerCase());
+    if (!page) {
+      unmatchedNames.push(name);
+      continue;
+    }
+    next = updatePageAnnotations(next, page.id, current => {
+      const merged = [...current];
+      annotations.forEach(annotation => {
+        const i = merged.findIndex(a => a.id === annotation.id);
+        if (i >= 0) merged[i] = mergeAnnotation(merged[i], annotation);
+        else merged.push(annotation);
+      });
+      return merged;
+    });
+  }
+  return { pages: next, unmatchedNames };
+};
@@ -0,0 +1,62 @@
+import { ContentsEntry, ProcessedPage } from '../types';
+
+/**
+ * Reads the text of the <title> directly under the root <svg>, the page's own name for itself.
+ * Titles deeper in the document belong to the shapes they sit in.
+ */
+export const getSvgTitle = (doc: Document): string | undefined => {
+  const title = Array.from(doc.documentElement.children).find(el => el.localName === 'title');
+  return title?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+};
+
+/**
+ * Builds the table of contents for pages in reading order, from the first source that has anything to say:
+ * the manifest's chapters, then the folders the pages came from, then the pages' own titles.
+ * Pages in the book's top folder form chapters of their own, named after their first page's title or else the book.
+ */
+export const buildContents = (readingPages: ProcessedPage[], bookTitle?: string): ContentsEntry[] => {
+  if (readingPages.some(p => p.chapters?.length)) {
+    return readingPages.flatMap((page, pageIndex) => (page.chapters ?? []).map(heading => ({ ...heading, pageIndex })));
+  }
+
+  // A new entry for every folder level that changes, so nested folders become nested chapters.
+  // Inserted blank pages come from no folder, so they stay in the chapter around them.
+  const fromFolders: ContentsEntry[] = [];
+  const hasFolders = readingPages.some(p => p.folder);
+  let previous: string[] | null = null; // Folder of the last page with one
+  readingPages.forEach((page, pageIndex) => {
+    if (!hasFolders || page.folder === undefined) return;
+    const parts = page.folder ? page.folder.split('/') : [];
+    if (parts.length === 0) {
+      // Top folder pages before the first chapter, or after a subfolder's, aren't part of any subfolder's chapter
+      if (previous?.length !== 0) fromFolders.push({ title: page.title ?? bookTitle ?? page.name, level: 1, pageIndex });
+    }
+    let same = 0;
+    while (same < parts.length && parts[same] === previous?.[same]) same++;
+    parts.slice(same).forEach((title, i) => fromFolders.push({ title, level: same + i + 1, pageIndex }));
+    previous = parts;
+  });
+  if (fromFolders.length > 0) return fromFolders;
+
+  // Consecutive pages that share a title are one chapter; untitled pages in between don't end it
+  const fromTitles: ContentsEntry[] = [];
+  let previousTitle: string | undefined;
+  readingPages.forEach((page, pageIndex) => {
+    if (!page.title) return;
+    if (page.title !== previousTitle) fromTitles.push({ title: page.title, level: 1, pageIndex });
+    previousTitle = page.title;
+  });
+  return fromTitles;
+};
+
+/**
+ * Finds the innermost chapter a page belongs to: the last entry starting at or before it.
+ */
+export const getCurrentEntry = (contents: ContentsEntry[], pageIndex: number): ContentsEntry | null => {
+  let current: ContentsEntry | null = null;
+  for (const entry of contents) {
+    if (entry.pageIndex > pageIndex) break;
+    current = entry;
+  }
+  return current;
+};
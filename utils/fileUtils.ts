@@ -1,7 +1,15 @@
-import { FileSystemEntry, FileSystemDirectoryEntry, FileSystemFileEntry, ProcessedPage, FileSystemDirectoryReader } from '../types';
+import JSZip from 'jszip';
+import { FileSystemEntry, FileSystemDirectoryEntry, FileSystemFileEntry, ProcessedPage, ProcessedBook, FileSystemDirectoryReader, RedactionPolicy, RedactionRegion, TextRun, StoredPage, Diagnostic, BookMetadata, BindingProgress } from '../types';
+import { applyRedactions, getRedactionTags, measureRedactionRegions, parseTags, DEFAULT_REDACTION_POLICY } from './redactionUtils';
+import { applyHiddenLayers, getLayerTags } from './layerUtils';
+import { withMountedSvg } from './svgUtils';
+import { revokePageUrls } from './pageUtils';
+import { extractTextRuns } from './searchUtils';
+import { isManifestFile, parseManifest, applyManifest, getManifestPageNames, ManifestError, MANIFEST_FILENAME } from './manifestUtils';
+import { loadImage } from './thumbnailUtils';
+import { getSvgTitle } from './contentsUtils';
 
 const XLINK_NS = 'http://www.w3.org/1999/xlink';
-const SVG_NS = 'http://www.w3.org/2000/svg';
 
 /**
  * Robustly reads all entries from a directory reader.
@@ -23,17 +31,29 @@ async function readAllEntries(dirReader: FileSystemDirectoryReader): Promise<Fil
 }
 
 /**
- * Traverses a FileSystemEntry (file or directory) and returns a flat list of Files.
+ * A file together with its path inside what was dropped or picked, e.g. "book/images/logo.png".
  */
-async function traverseFileTree(entry: FileSystemEntry): Promise<File[]> {
-  const files: File[] = [];
+interface SourceFile {
+  file: File;
+  path: string;
+}
+
+/**
+ * Traverses a FileSystemEntry (file or directory) and returns a flat list of Files with their paths.
+ * Calls `onFileFound` for each file as it is found.
+ */
+async function traverseFileTree(entry: FileSystemEntry, onFileFound: () => void, signal?: AbortSignal): Promise<SourceFile[]> {
+  signal?.throwIfAborted();
+  const files: SourceFile[] = [];
 
   if (entry.isFile) {
     const fileEntry = entry as FileSystemFileEntry;
     await new Promise<void>((resolve, reject) => {
       fileEntry.file(
         (file) => {
-          files.push(file);
+          // fullPath is rooted at the drop, e.g. "/book/page1.svg"
+          files.push({ file, path: normalizePath(entry.fullPath || file.name) });
+          onFileFound();
           resolve();
         },
         (err) => reject(err)
@@ -45,36 +65,174 @@ async function traverseFileTree(entry: FileSystemEntry): Promise<File[]> {
     const entries = await readAllEntries(dirReader);
 
     for (const childEntry of entries) {
-      const childFiles = await traverseFileTree(childEntry);
+      const childFiles = await traverseFileTree(childEntry, onFileFound, signal);
       files.push(...childFiles);
     }
   }
   return files;
 }
 
+const ARCHIVE_EXTENSIONS = ['.zip', '.cbz'];
+
+// Files unpacked from an archive have no MIME type, which breaks Data URLs and SVG detection
+const MIME_TYPES: Record<string, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  css: 'text/css',
+};
+
+function getMimeType(filename: string): string {
+  const ext = filename.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[ext] || 'application/octet-stream';
+}
+
+const isSvg = (file: File): boolean => file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+
+// Scans and other bitmaps that can stand in for a page; the type may be missing, so go by extension too
+const isRasterImage = (file: File): boolean => {
+  const type = file.type || getMimeType(file.name);
+  return type.startsWith('image/') && !isSvg(file);
+};
+
+function isArchive(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
 /**
- * Extract filename from a path string, handling URL encoding and query params.
+ * Unpacks a ZIP/CBZ archive into a flat list of Files.
+ * Entries keep their folders inside the archive, placed next to where the archive itself was.
  */
-function getFilenameFromPath(path: string): string {
-  if (!path) return '';
-  // Ignore data URIs or absolute HTTP links
-  if (path.startsWith('data:') || path.startsWith('http://') || path.startsWith('https://')) {
-    return '';
+async function extractArchive(archive: SourceFile, onFileFound: () => void, signal?: AbortSignal): Promise<SourceFile[]> {
+  const zip = await JSZip.loadAsync(archive.file);
+  const folder = getDirectory(archive.path);
+  const files: SourceFile[] = [];
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+
+    // Skip macOS resource forks and hidden files at any depth
+    const segments = entry.name.split('/');
+    if (segments.some(s => s === '__MACOSX' || s.startsWith('.'))) continue;
+
+    signal?.throwIfAborted();
+    const filename = segments[segments.length - 1];
+    const blob = await entry.async('blob');
+    files.push({
+      file: new File([blob], filename, { type: getMimeType(filename), lastModified: entry.date.getTime() }),
+      path: normalizePath(folder ? `${folder}/${entry.name}` : entry.name)
+    });
+    onFileFound();
   }
+  return files;
+}
 
-  // Handle / or \ separators
-  const parts = path.split(/[/\\]/);
-  let filename = parts[parts.length - 1];
-  
-  // Remove query params or hashes (e.g., image.png?v=1)
-  filename = filename.split(/[?#]/)[0];
-  
-  // Decode (e.g., my%20image.png -> my image.png)
-  try {
-    return decodeURIComponent(filename);
-  } catch (e) {
-    return filename;
+/**
+ * Replaces any archives in the list with their contents.
+ */
+async function expandArchives(files: SourceFile[], onFileFound: () => void, signal?: AbortSignal): Promise<SourceFile[]> {
+  const expanded: SourceFile[] = [];
+  for (const file of files) {
+    if (isArchive(file.file)) {
+      try {
+        expanded.push(...await extractArchive(file, onFileFound, signal));
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        throw new Error(`Could not open archive ${file.file.name}: ${e instanceof Error ? e.message : e}`);
+      }
+    } else {
+      expanded.push(file);
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Names a book after what it was loaded from, when that was a single folder or archive.
+ * `sources` are the top-level items: folder names and file names.
+ */
+function getBookName(sources: { name: string; isDirectory: boolean }[]): string | undefined {
+  if (sources.length !== 1) return undefined;
+  const [source] = sources;
+  if (source.isDirectory) return source.name;
+  const lower = source.name.toLowerCase();
+  const ext = ARCHIVE_EXTENSIONS.find(e => lower.endsWith(e));
+  return ext ? source.name.slice(0, -ext.length) : undefined;
+}
+
+/**
+ * Resolves "." and ".." segments and turns Windows separators into "/". The result has no leading "/".
+ */
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+const getDirectory = (path: string): string => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+/**
+ * The deepest folder that holds every one of the paths; '' when they only share the root.
+ */
+const getCommonDirectory = (paths: string[]): string => {
+  if (paths.length === 0) return '';
+  let common = getDirectory(paths[0]).split('/');
+  for (const path of paths.slice(1)) {
+    const parts = getDirectory(path).split('/');
+    let i = 0;
+    while (i < common.length && parts[i] === common[i]) i++;
+    common = common.slice(0, i);
   }
+  return common.join('/');
+};
+
+const getBasename = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+/**
+ * Extracts the file path from a link, dropping query params and hashes (e.g., image.png?v=1).
+ * Returns '' for links that can't name a file in the book: data URIs, web links, in-document #fragments.
+ */
+function getPathFromReference(reference: string): string {
+  if (!reference || isExternalReference(reference)) return '';
+  return reference.split(/[?#]/)[0].replace(/\\/g, '/');
+}
+
+/**
+ * Links with a scheme (mailto:, blob:, ...) point outside the book, so they can't be missing from it.
+ * Single letters are left alone: they are Windows drive letters.
+ */
+function isExternalReference(path: string): boolean {
+  return /^[a-z][a-z0-9+.-]+:/i.test(path) && !/^file:/i.test(path);
+}
+
+/**
+ * Reports pages that share a file name in different folders. book.json names pages by file name,
+ * so it can only refer to one of them.
+ */
+function findDuplicatePageNames(files: SourceFile[]): Diagnostic[] {
+  const byName = new Map<string, SourceFile[]>();
+  files.forEach(f => byName.set(f.file.name.toLowerCase(), [...(byName.get(f.file.name.toLowerCase()) || []), f]));
+
+  return Array.from(byName.values())
+    .filter(group => group.length > 1)
+    .map(group => ({
+      kind: 'duplicate-name' as const,
+      message: `${group.length} pages are named "${group[0].file.name}" (${group.map(f => f.path).join(', ')}); ${MANIFEST_FILENAME} can only refer to one of them.`
+    }));
 }
 
 /**
@@ -92,30 +250,399 @@ const readFileAsDataURL = (file: File): Promise<string> => {
 };
 
 /**
- * Recursive function to redact text nodes by replacing content with blocks.
+ * Applies the redaction policy, and hides the hidden layers, in an asset-inlined SVG.
+ * Content that doesn't parse is passed through untouched, as before.
  */
-const redactTextNodes = (node: Node) => {
-  // Node.TEXT_NODE is 3
-  if (node.nodeType === 3 && node.textContent) {
-    // Replace non-whitespace characters with U+25AE (Black Vertical Rectangle)
-    node.textContent = node.textContent.replace(/[^\s]/g, '\u25AE');
-  } else {
-    node.childNodes.forEach(child => redactTextNodes(child));
+const renderPageContent = (source: string, policy: RedactionPolicy): { content: string; redacted: boolean } => {
+  const doc = new DOMParser().parseFromString(source, "image/svg+xml");
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { content: source, redacted: false };
   }
+  const redacted = applyRedactions(doc, policy);
+  const hasHiddenLayers = applyHiddenLayers(doc, policy.hiddenLayers);
+  return { content: redacted || hasHiddenLayers ? new XMLSerializer().serializeToString(doc) : source, redacted };
+};
+
+/**
+ * Renders a page again from its kept source under a new redaction policy.
+ * The caller owns the old blob URL and should revoke it once the new page is shown.
+ */
+export const rerenderPage = (page: ProcessedPage, policy: RedactionPolicy): ProcessedPage => {
+  if (page.isBlank || page.source === undefined) return page;
+  const rendered = renderPageContent(page.source, policy);
+  const url = URL.createObjectURL(new Blob([rendered.content], { type: 'image/svg+xml' }));
+  return { ...page, url, redacted: rendered.redacted };
 };
 
+/**
+ * Whether reveal mode can show the page differently from the reader: it has redactions or layers that may be hidden.
+ */
+const hasOriginalRendition = (page: Pick<ProcessedPage, 'redactionTags' | 'layerTags'>): boolean =>
+  !!page.redactionTags?.length || !!page.layerTags?.length;
+
+/**
+ * Recreates the blob URLs of a page loaded from the library.
+ */
+export const restorePage = (page: StoredPage, policy: RedactionPolicy): ProcessedPage => {
+  if (page.isBlank || page.source === undefined) return { ...page, url: '' };
+  const restored = rerenderPage({ ...page, url: '' }, policy);
+  const originalUrl = hasOriginalRendition(page)
+    ? URL.createObjectURL(new Blob([page.source], { type: 'image/svg+xml' }))
+    : undefined;
+  return { ...restored, originalUrl };
+};
+
+/**
+ * Looks up the book's non-SVG files by path and reads them only when a page links to them.
+ * Each asset is read once and shared by every page that links to it; `onAssetRead` is called after each read.
+ */
+function createAssetIndex(assetFiles: SourceFile[], onAssetRead: () => void) {
+  // Secondary maps allow case-insensitive lookup, and lookup by file name when a link's folders don't match
+  const files = new Map(assetFiles.map(f => [f.path, f.file]));
+  const pathsLower = new Map(assetFiles.map(f => [f.path.toLowerCase(), f.path]));
+  const pathsByName = new Map<string, string[]>();
+  assetFiles.forEach(({ file, path }) => {
+    const name = file.name.toLowerCase();
+    pathsByName.set(name, [...(pathsByName.get(name) || []), path]);
+  });
+  const dataUrls = new Map<string, Promise<string | undefined>>();
+
+  return {
+    usedPaths: new Set<string>(),
+
+    /**
+     * Finds the asset a link points to: first relative to the page's folder,
+     * then by file name alone, but only if exactly one asset has that name.
+     */
+    find(linkPath: string, pageFolder: string): { path?: string; candidates: string[] } {
+      const variants = [linkPath];
+      // Try exact match, then decoded (e.g., my%20image.png -> my image.png)
+      try {
+        const decoded = decodeURIComponent(linkPath);
+        if (decoded !== linkPath) variants.push(decoded);
+      } catch (e) {}
+
+      for (const variant of variants) {
+        // Rooted paths ("/images/a.png", "C:/...", "file:...") can't be matched against the dropped folders
+        if (/^(\/|[a-z]:\/|file:)/i.test(variant)) continue;
+        const resolved = normalizePath(pageFolder ? `${pageFolder}/${variant}` : variant);
+        const path = files.has(resolved) ? resolved : pathsLower.get(resolved.toLowerCase());
+        if (path) return { path, candidates: [path] };
+      }
+
+      for (const variant of variants) {
+        const candidates = pathsByName.get(getBasename(variant).toLowerCase()) || [];
+        if (candidates.length === 1) return { path: candidates[0], candidates };
+        if (candidates.length > 1) return { candidates };
+      }
+      return { candidates: [] };
+    },
+
+    /**
+     * Reads an asset as a Data URL, or gives undefined if the file can't be read.
+     */
+    read(path: string): Promise<string | undefined> {
+      this.usedPaths.add(path);
+      let dataUrl = dataUrls.get(path);
+      if (!dataUrl) {
+        dataUrl = readFileAsDataURL(files.get(path)!)
+          .catch(e => {
+            console.warn(`Could not read asset ${path}`, e);
+            return undefined;
+          })
+          .finally(onAssetRead);
+        dataUrls.set(path, dataUrl);
+      }
+      return dataUrl;
+    },
+
+    unusedPaths(): string[] {
+      return assetFiles.map(f => f.path).filter(path => !this.usedPaths.has(path));
+    }
+  };
+}
+
+type AssetIndex = ReturnType<typeof createAssetIndex>;
+
+/**
+ * Finds the assets the SVG pages link to, without reading the assets themselves.
+ * Links to several files with the same name count for all of them.
+ */
+async function findLinkedAssetPaths(svgFiles: SourceFile[], assets: AssetIndex, signal?: AbortSignal): Promise<Set<string>> {
+  const LINK = /(?:href|src)\s*=\s*(["'])(.*?)\1|url\((['"]?)(.*?)\3\)/g;
+  const linked = new Set<string>();
+  for (const { file, path } of svgFiles) {
+    signal?.throwIfAborted();
+    for (const [, , attributeLink, , cssLink] of (await file.text()).matchAll(LINK)) {
+      const linkPath = getPathFromReference(attributeLink ?? cssLink);
+      if (!linkPath) continue;
+      const match = assets.find(linkPath, getDirectory(path));
+      (match.path ? [match.path] : match.candidates).forEach(p => linked.add(p));
+    }
+  }
+  return linked;
+}
+
+const parser = new DOMParser();
+const serializer = new XMLSerializer();
+
+/**
+ * Turns one SVG file into a page:
+ * reads its size, inlines the assets it links to, measures its overlays and applies redactions.
+ */
+async function processSvgFile(
+  { file, path: pagePath }: SourceFile,
+  assets: AssetIndex,
+  redactionPolicy: RedactionPolicy
+): Promise<Omit<ProcessedPage, 'id' | 'name' | 'index'>> {
+  let content = await file.text();
+  let width = 0;
+  let height = 0;
+  let isWide = false;
+  let redactionTags: string[] = [];
+  let layerTags: string[] = [];
+  let title: string | undefined;
+  let redactionRegions: RedactionRegion[] = [];
+  let textRuns: TextRun[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const missingAssets = new Set<string>();
+  const ambiguousAssets = new Map<string, string[]>();
+
+  // Looks a link up among the assets and reads the file, noting which links lead nowhere
+  const resolveAsset = async (reference: string): Promise<string | undefined> => {
+    const linkPath = getPathFromReference(reference);
+    if (!linkPath) return undefined;
+    const match = assets.find(linkPath, getDirectory(pagePath));
+    if (match.path) return assets.read(match.path);
+    if (match.candidates.length > 1) ambiguousAssets.set(reference, match.candidates);
+    else missingAssets.add(reference);
+    return undefined;
+  };
+
+  try {
+    const doc = parser.parseFromString(content, "image/svg+xml");
+    const parseError = doc.getElementsByTagName('parsererror')[0];
+    
+    // Check for parsing errors
+    if (parseError) {
+      // Chrome wraps the message in a <div>, Firefox puts it straight in the element
+      const detail = (parseError.querySelector('div')?.textContent ?? parseError.textContent ?? '').trim().split('\n')[0];
+      diagnostics.push({
+        kind: 'parse-error',
+        message: `Not well-formed SVG${detail ? ` (${detail})` : ''}. The page may not display, and its redaction tags could not be applied.`
+      });
+    } else {
+      const svgElement = doc.documentElement;
+      
+      // 1. Extract Dimensions (viewBox takes precedence)
+      const viewBox = svgElement.getAttribute('viewBox');
+      if (viewBox) {
+          const parts = viewBox.split(/[\s,]+/).filter(Boolean).map(Number);
+          if (parts.length === 4) {
+              width = parts[2];
+              height = parts[3];
+          }
+      }
+      
+      if (!width || !height) {
+          const wAttr = svgElement.getAttribute('width');
+          const hAttr = svgElement.getAttribute('height');
+          if (wAttr) width = parseFloat(wAttr);
+          if (hAttr) height = parseFloat(hAttr);
+      }
+
+      // A page tagged "wide" fills a spread, whatever its size
+      isWide = parseTags(svgElement.getAttribute('data-tags')).includes('wide');
+
+      // 2. Process Resources (Link replacement)
+      const links: Promise<void>[] = [];
+      const elements = doc.getElementsByTagName('*');
+      
+      for (let i = 0; i < elements.length; i++) {
+        const el = elements[i];
+        
+        const processAttribute = (attrName: string, namespace: string | null) => {
+          const val = namespace ? el.getAttributeNS(namespace, attrName) : el.getAttribute(attrName);
+          if (!val) return;
+
+          links.push(resolveAsset(val).then(assetUrl => {
+            if (!assetUrl) return;
+            if (namespace === XLINK_NS) {
+                // Explicitly set xlink:href to preserve prefix which many viewers require
+                el.setAttributeNS(namespace, 'xlink:href', assetUrl);
+            } else if (namespace) {
+                el.setAttributeNS(namespace, attrName, assetUrl);
+            } else {
+                el.setAttribute(attrName, assetUrl);
+            }
+          }));
+        };
+
+        processAttribute('href', null);
+        processAttribute('src', null);
+        processAttribute('href', XLINK_NS); // Handle <image xlink:href="...">
+        processAttribute('xlink:href', null); // Handle legacy/malformed xlink:href attributes without NS
+      }
+      await Promise.all(links);
+
+      // 3. Note which redaction and layer tags the page uses, so the reader can choose among them
+      redactionTags = getRedactionTags(doc);
+      layerTags = getLayerTags(doc);
+      title = getSvgTitle(doc);
+
+      // 4. Measure what the reader overlays on the page: redacted regions and searchable text
+      ({ redactionRegions, textRuns } = withMountedSvg(doc, (svg, measure) => ({
+        redactionRegions: measureRedactionRegions(svg, measure),
+        textRuns: extractTextRuns(svg, measure)
+      })));
+
+      content = serializer.serializeToString(doc);
+    }
+  } catch (e) {
+    console.warn("Error parsing SVG DOM, falling back to regex replacement:", file.name, e);
+    diagnostics.push({
+      kind: 'parse-error',
+      message: `Could not be processed as SVG (${e instanceof Error ? e.message : e}); only CSS url(...) links were resolved.`
+    });
+  }
+
+  // Secondary pass: Regex replace for CSS url(...) 
+  // This handles <style> blocks, style attributes, and catch-alls.
+  // Links are read first, since replace() can't wait for them.
+  const CSS_URL = /url\((['"]?)(.*?)\1\)/g;
+  const cssAssets = new Map<string, string | undefined>();
+  for (const [, , url] of content.matchAll(CSS_URL)) {
+    if (!cssAssets.has(url)) cssAssets.set(url, await resolveAsset(url));
+  }
+  content = content.replace(CSS_URL, (match, quote, url) => {
+    const assetUrl = cssAssets.get(url);
+    return assetUrl ? `url(${quote}${assetUrl}${quote})` : match;
+  });
+
+  // 5. Apply redactions to a copy, keeping the inlined source for re-rendering
+  const rendered = renderPageContent(content, redactionPolicy);
+  const url = URL.createObjectURL(new Blob([rendered.content], { type: 'image/svg+xml' }));
+
+  // Keep the unredacted rendition too, so reviewers can compare
+  const originalUrl = hasOriginalRendition({ redactionTags, layerTags })
+    ? URL.createObjectURL(new Blob([content], { type: 'image/svg+xml' }))
+    : undefined;
+
+  // Default to A4ish ratio if extraction failed
+  if (!width || !height) {
+    diagnostics.push({
+      kind: 'default-size',
+      message: `Has no usable viewBox, width or height, so it is shown at the default ${width || 595} × ${height || 842}.`
+    });
+  }
+  if (!width) width = 595;
+  if (!height) height = 842;
+
+  missingAssets.forEach(reference => diagnostics.push({
+    kind: 'missing-asset',
+    message: `Links to "${reference}", which is not in the book.`
+  }));
+  ambiguousAssets.forEach((candidates, reference) => diagnostics.push({
+    kind: 'ambiguous-asset',
+    message: `Links to "${reference}", which is not at that path, and ${candidates.length} files share its name (${candidates.join(', ')}). It was left unresolved.`
+  }));
+
+  return {
+    url,
+    width,
+    height,
+    isWide,
+    redacted: rendered.redacted,
+    redactionTags,
+    layerTags,
+    title,
+    redactionRegions,
+    textRuns,
+    source: content,
+    originalUrl,
+    diagnostics
+  };
+}
+
+/**
+ * Turns a raster image into a page: an SVG that shows the image at its natural size,
+ * so it is stored, rendered, redacted and exported like every other page.
+ */
+async function processImageFile(
+  { file, path }: SourceFile,
+  assets: AssetIndex,
+  redactionPolicy: RedactionPolicy
+): Promise<Omit<ProcessedPage, 'id' | 'name' | 'index'>> {
+  const dataUrl = await readFileAsDataURL(file);
+  let width = 0;
+  let height = 0;
+  try {
+    const img = await loadImage(dataUrl);
+    width = img.naturalWidth;
+    height = img.naturalHeight;
+  } catch (e) {
+    console.warn("Could not decode image page:", file.name, e);
+  }
+
+  const size = width && height ? `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"` : '';
+  const content = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="${XLINK_NS}" ${size}>`
+    + `<image width="100%" height="100%" xlink:href="${dataUrl}"/></svg>`;
+  const page = await processSvgFile({ file: new File([content], file.name, { type: 'image/svg+xml' }), path }, assets, redactionPolicy);
+
+  if (!width || !height) {
+    // Say why the size is missing instead of blaming the (generated) SVG
+    page.diagnostics = [{
+      kind: 'parse-error',
+      message: `Could not be decoded as an image, so it is shown blank at the default ${page.width} × ${page.height}.`
+    }];
+  }
+  return page;
+}
+
+export interface ProcessingOptions {
+  // The book's pages in reading order, all still pending, once the files are collected and the manifest applied
+  onBookReady?: (book: ProcessedBook) => void;
+  // Each page as it is finished, in reading order
+  onPageReady?: (page: ProcessedPage) => void;
+  onProgress?: (progress: BindingProgress) => void;
+  // Stops collecting and processing; processFiles then rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+// Least time between progress reports while files are found and assets read, which can happen thousands of times a second
+const PROGRESS_INTERVAL = 100;
+
 /**
  * Main function to process dropped items or file input list.
- * 1. Collects all files.
- * 2. Creates Data URLs for assets (images, fonts, etc.).
- * 3. Reads SVGs, replaces asset filenames with Data URLs using DOM parsing.
- * 4. Applies redaction based on data-tags.
- * 5. Sorts SVGs alphanumerically.
+ * 1. Collects all files, unpacking any ZIP/CBZ archives.
+ * 2. Picks the pages: SVGs, plus raster images where the manifest or the lack of SVGs calls for them.
+ *    Sorts them alphanumerically, then applies the book.json manifest if there is one,
+ *    and hands the book over with every page still pending.
+ * 3. Processes the pages one by one in reading order (see processSvgFile and processImageFile), so the first spread is readable early.
+ *    Only the assets a page links to are read and inlined into it.
+ * Problems found along the way are reported on the page they concern, or on the book.
+ * If it fails or is aborted, the blob URLs of the pages it already finished are revoked.
  */
 export const processFiles = async (
-  items: DataTransferItemList | FileList
-): Promise<ProcessedPage[]> => {
-  let allFiles: File[] = [];
+  items: DataTransferItemList | FileList,
+  redactionPolicy: RedactionPolicy = DEFAULT_REDACTION_POLICY,
+  { onBookReady, onPageReady, onProgress, signal }: ProcessingOptions = {}
+): Promise<ProcessedBook> => {
+  let allFiles: SourceFile[] = [];
+  let name: string | undefined;
+
+  const progress: BindingProgress = { stage: 'collecting', filesFound: 0, assetsRead: 0, pagesDone: 0, pagesTotal: 0 };
+  let lastReport = 0;
+  const reportProgress = (force = false) => {
+    const now = performance.now();
+    if (!force && now - lastReport < PROGRESS_INTERVAL) return;
+    lastReport = now;
+    onProgress?.({ ...progress });
+  };
+  const onFileFound = () => {
+    progress.filesFound++;
+    reportProgress();
+  };
 
   // Handle Drag & Drop (DataTransferItemList)
   if (items instanceof DataTransferItemList) {
@@ -127,228 +654,122 @@ export const processFiles = async (
         entries.push(entry as unknown as FileSystemEntry);
       } else if (item.kind === 'file') {
         const file = item.getAsFile();
-        if (file) allFiles.push(file);
+        if (file) {
+          allFiles.push({ file, path: file.name });
+          progress.filesFound++;
+        }
       }
     }
+    name = getBookName([
+      ...entries.map(e => ({ name: e.name, isDirectory: e.isDirectory })),
+      ...allFiles.map(f => ({ name: f.file.name, isDirectory: false }))
+    ]);
     for (const entry of entries) {
-      allFiles.push(...await traverseFileTree(entry));
+      allFiles.push(...await traverseFileTree(entry, onFileFound, signal));
     }
   } 
   // Handle Input Select (FileList)
   else {
-    allFiles = Array.from(items);
+    allFiles = Array.from(items).map(file => ({ file, path: normalizePath(file.webkitRelativePath || file.name) }));
+    progress.filesFound = allFiles.length;
+    // A picked folder shows up as files whose relative paths share the folder name
+    const folders = new Set(Array.from(items).map(f => f.webkitRelativePath.split('/')[0]).filter(Boolean));
+    name = folders.size === 1
+      ? getBookName([{ name: Array.from(folders)[0], isDirectory: true }])
+      : getBookName(allFiles.map(f => ({ name: f.file.name, isDirectory: false })));
   }
 
-  // Filter out system files like .DS_Store
-  allFiles = allFiles.filter(f => !f.name.startsWith('.'));
-
-  // Separate SVGs and Assets
-  const svgFiles = allFiles.filter(f => f.type === 'image/svg+xml' || f.name.toLowerCase().endsWith('.svg'));
-  const assetFiles = allFiles.filter(f => f.type !== 'image/svg+xml' && !f.name.toLowerCase().endsWith('.svg'));
-
-  // Map asset filenames to Data URLs
-  // Use a secondary map for case-insensitive lookup to be more robust
-  const assetMap = new Map<string, string>();
-  const assetMapLower = new Map<string, string>();
-  
-  // Convert all assets to Base64
-  await Promise.all(assetFiles.map(async (file) => {
-    try {
-        const dataUrl = await readFileAsDataURL(file);
-        assetMap.set(file.name, dataUrl);
-        assetMapLower.set(file.name.toLowerCase(), dataUrl);
-    } catch (e) {
-        console.warn(`Could not read asset ${file.name}`, e);
-    }
-  }));
-
-  const processedPages: ProcessedPage[] = [];
-  const parser = new DOMParser();
-  const serializer = new XMLSerializer();
-
-  // Process SVGs
-  for (const file of svgFiles) {
-    let content = await file.text();
-    let width = 0;
-    let height = 0;
-    
-    try {
-      const doc = parser.parseFromString(content, "image/svg+xml");
-      
-      // Check for parsing errors
-      if (doc.getElementsByTagName('parsererror').length === 0) {
-        const svgElement = doc.documentElement;
-        
-        // 1. Extract Dimensions (viewBox takes precedence)
-        const viewBox = svgElement.getAttribute('viewBox');
-        if (viewBox) {
-            const parts = viewBox.split(/[\s,]+/).filter(Boolean).map(Number);
-            if (parts.length === 4) {
-                width = parts[2];
-                height = parts[3];
-            }
-        }
-        
-        if (!width || !height) {
-            const wAttr = svgElement.getAttribute('width');
-            const hAttr = svgElement.getAttribute('height');
-            if (wAttr) width = parseFloat(wAttr);
-            if (hAttr) height = parseFloat(hAttr);
-        }
+  // Unpack archives so their contents go through the same pipeline as a dropped folder
+  allFiles = await expandArchives(allFiles, onFileFound, signal);
+  signal?.throwIfAborted();
+  reportProgress(true);
 
-        // 2. Process Resources (Link replacement)
-        const elements = doc.getElementsByTagName('*');
-        
-        for (let i = 0; i < elements.length; i++) {
-          const el = elements[i];
-          
-          const processAttribute = (attrName: string, namespace: string | null) => {
-            const val = namespace ? el.getAttributeNS(namespace, attrName) : el.getAttribute(attrName);
-            if (!val) return;
-            
-            const filename = getFilenameFromPath(val);
-            if (!filename) return;
-
-            // Try exact match, then lowercase, then decoded
-            let assetUrl = assetMap.get(filename);
-            if (!assetUrl) assetUrl = assetMapLower.get(filename.toLowerCase());
-            if (!assetUrl) {
-                try {
-                    const decoded = decodeURIComponent(filename);
-                    assetUrl = assetMap.get(decoded) || assetMapLower.get(decoded.toLowerCase());
-                } catch(e) {}
-            }
+  // Filter out system files like .DS_Store
+  allFiles = allFiles.filter(f => !f.file.name.startsWith('.'));
 
-            if (assetUrl) {
-              if (namespace === XLINK_NS) {
-                  // Explicitly set xlink:href to preserve prefix which many viewers require
-                  el.setAttributeNS(namespace, 'xlink:href', assetUrl);
-              } else if (namespace) {
-                  el.setAttributeNS(namespace, attrName, assetUrl);
-              } else {
-                  el.setAttribute(attrName, assetUrl);
-              }
-            }
-          };
+  // Pull out the optional manifest before the rest is treated as assets
+  const manifestFiles = allFiles.filter(f => isManifestFile(f.file));
+  if (manifestFiles.length > 1) {
+    throw new ManifestError(`found ${manifestFiles.length} files named ${MANIFEST_FILENAME}, expected at most one`);
+  }
+  const manifest = manifestFiles.length === 1 ? parseManifest(await manifestFiles[0].file.text()) : null;
+  allFiles = allFiles.filter(f => !isManifestFile(f.file));
 
-          processAttribute('href', null);
-          processAttribute('src', null);
-          processAttribute('href', XLINK_NS); // Handle <image xlink:href="...">
-          processAttribute('xlink:href', null); // Handle legacy/malformed xlink:href attributes without NS
-        }
+  // Separate SVGs and Assets
+  const svgFiles = allFiles.filter(f => isSvg(f.file));
+  let assetFiles = allFiles.filter(f => !isSvg(f.file));
+
+  // Raster images are pages too when the manifest says so, or when there are no SVG pages at all,
+  // unless an SVG page draws them. Images the manifest names as pages always are.
+  const listedNames = manifest ? getManifestPageNames(manifest) : new Set<string>();
+  const isListed = (f: SourceFile) => listedNames.has(f.file.name.toLowerCase());
+  const useImagePages = manifest?.imagePages ?? svgFiles.length === 0;
+  let imageFiles = assetFiles.filter(f => isRasterImage(f.file) && (useImagePages || isListed(f)));
+  if (imageFiles.length > 0) {
+    const linked = await findLinkedAssetPaths(svgFiles, createAssetIndex(assetFiles, () => {}), signal);
+    imageFiles = imageFiles.filter(f => isListed(f) || !linked.has(f.path));
+    // An image can be both a page and drawn on another page; only then does it stay an asset as well
+    assetFiles = assetFiles.filter(f => !imageFiles.includes(f) || linked.has(f.path));
+  }
 
-        // 3. Process Redactions via data-tags
-        const taggedElements = doc.querySelectorAll('[data-tags]');
-        
-        // Only inject filter if we find elements that need it
-        let needsFilter = false;
-        taggedElements.forEach(el => {
-            const tagsStr = el.getAttribute('data-tags') || '';
-            const tags = tagsStr.split(',').map(s => s.trim().toLowerCase());
-            if (tags.some(t => t.startsWith('redact'))) needsFilter = true;
-        });
-
-        if (needsFilter) {
-            // Generate a unique ID for the filter to avoid conflicts
-            const filterId = 'redact-blur-' + Math.random().toString(36).substr(2, 9);
-            
-            // Create or get <defs>
-            let defs = doc.querySelector('defs');
-            if (!defs) {
-                defs = doc.createElementNS(SVG_NS, 'defs');
-                if (doc.documentElement.firstChild) {
-                    doc.documentElement.insertBefore(defs, doc.documentElement.firstChild);
-                } else {
-                    doc.documentElement.appendChild(defs);
-                }
-            }
+  const pageFiles = [...svgFiles, ...imageFiles];
+  const bookDiagnostics: Diagnostic[] = findDuplicatePageNames(pageFiles);
+  const assets = createAssetIndex(assetFiles, () => {
+    progress.assetsRead++;
+    reportProgress();
+  });
 
-            // Create Filter Definition
-            const filter = doc.createElementNS(SVG_NS, 'filter');
-            filter.setAttribute('id', filterId);
-            // Expand filter region to prevent clipping of the blur at element edges
-            filter.setAttribute('x', '-50%');
-            filter.setAttribute('y', '-50%');
-            filter.setAttribute('width', '200%');
-            filter.setAttribute('height', '200%');
-
-            const feGaussian = doc.createElementNS(SVG_NS, 'feGaussianBlur');
-            feGaussian.setAttribute('in', 'SourceGraphic');
-            // Significantly increased stdDeviation for even stronger blur
-            feGaussian.setAttribute('stdDeviation', '150'); 
-            // Duplicate edges so we don't fade to transparent at the border of the image
-            feGaussian.setAttribute('edgeMode', 'duplicate'); 
-            
-            filter.appendChild(feGaussian);
-            defs.appendChild(filter);
-
-            taggedElements.forEach(el => {
-                const tagsStr = el.getAttribute('data-tags') || '';
-                const tags = tagsStr.split(',').map(s => s.trim().toLowerCase());
-                
-                if (tags.some(t => t.startsWith('redact'))) {
-                    
-                    // A. Redact Images (Blur)
-                    // Select self if image, or descendant images
-                    const nodeName = el.nodeName.toLowerCase();
-                    const images = (nodeName === 'image') 
-                        ? [el] 
-                        : Array.from(el.getElementsByTagName('image'));
-                    
-                    images.forEach(img => {
-                        // Apply SVG filter
-                        img.setAttribute('filter', `url(#${filterId})`);
-                        
-                        // Keep CSS fallback just in case, but native SVG filter is primary
-                        const existingStyle = img.getAttribute('style') || '';
-                        img.setAttribute('style', `${existingStyle}; filter: blur(150px);`);
-                    });
-
-                    // B. Redact Text (Replace characters)
-                    redactTextNodes(el);
-                }
-            });
-        }
+  // Sort pages alphanumerically
+  pageFiles.sort((a, b) => a.file.name.localeCompare(b.file.name, undefined, { numeric: true, sensitivity: 'base' }));
+  const topFolder = getCommonDirectory(pageFiles.map(f => f.path));
+
+  // Lay the book out before any page is processed, so it can be shown while the pages fill in
+  const sources = new Map<string, SourceFile>();
+  let pages: ProcessedPage[] = pageFiles.map((source, index) => {
+    const id = crypto.randomUUID();
+    sources.set(id, source);
+    const folder = getDirectory(source.path).slice(topFolder.length).replace(/^\//, '');
+    return { id, name: source.file.name, url: '', index, folder, isPending: true };
+  });
+  let metadata: BookMetadata = {};
+  if (manifest) ({ pages, metadata } = applyManifest(pages, manifest));
+  onBookReady?.({ pages, metadata, name, diagnostics: bookDiagnostics });
+  // A new book starts with the layers its manifest hides
+  const pagePolicy: RedactionPolicy = { ...redactionPolicy, hiddenLayers: metadata.hiddenLayers ?? [] };
+  progress.stage = 'processing';
+  progress.pagesTotal = pages.length;
+  reportProgress(true);
 
-        content = serializer.serializeToString(doc);
-      }
-    } catch (e) {
-      console.warn("Error parsing SVG DOM, falling back to regex replacement:", file.name, e);
+  const processedPages: ProcessedPage[] = [];
+  try {
+    for (const placeholder of pages) {
+      signal?.throwIfAborted();
+      const source = sources.get(placeholder.id)!;
+      const processPage = isSvg(source.file) ? processSvgFile : processImageFile;
+      const page: ProcessedPage = {
+        ...placeholder,
+        ...await processPage(source, assets, pagePolicy),
+        isPending: false
+      };
+      processedPages.push(page);
+      // Aborted while this page was being processed: don't hand it over
+      signal?.throwIfAborted();
+      onPageReady?.(page);
+      progress.pagesDone = processedPages.length;
+      reportProgress(true);
+
+      // Give the browser a chance to paint and handle input between pages
+      await new Promise(resolve => setTimeout(resolve, 0));
     }
-
-    // Secondary pass: Regex replace for CSS url(...) 
-    // This handles <style> blocks, style attributes, and catch-alls
-    content = content.replace(/url\((['"]?)(.*?)\1\)/g, (match, quote, url) => {
-      const filename = getFilenameFromPath(url);
-      if (filename) {
-        let assetUrl = assetMap.get(filename) || assetMapLower.get(filename.toLowerCase());
-        if (assetUrl) {
-          return `url(${quote}${assetUrl}${quote})`;
-        }
-      }
-      return match;
-    });
-
-    const blob = new Blob([content], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-
-    // Default to A4ish ratio if extraction failed
-    if (!width) width = 595;
-    if (!height) height = 842;
-
-    processedPages.push({
-      id: crypto.randomUUID(),
-      name: file.name,
-      url,
-      index: 0, // placeholder
-      width,
-      height
-    });
+  } catch (e) {
+    processedPages.forEach(revokePageUrls);
+    throw e;
   }
 
-  // Sort pages alphanumerically
-  processedPages.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+  assets.unusedPaths().forEach(path => bookDiagnostics.push({
+    kind: 'unused-asset',
+    message: `"${path}" is not linked from any page.`
+  }));
 
-  // Assign correct indices
-  return processedPages.map((page, index) => ({ ...page, index }));
-};
\ No newline at end of file
+  return { pages: processedPages, metadata, name, diagnostics: bookDiagnostics };
+};
@@ -0,0 +1,50 @@
+import { isRedactionTag, parseTags } from './redactionUtils';
+
+/**
+ * Whether a tag names a layer the reader can show or hide. Redaction tags have their own panel.
+ */
+export const isLayerTag = (tag: string): boolean => !isRedactionTag(tag);
+
+/**
+ * Lists the distinct layer tags used in a document.
+ * Tags on the root <svg> describe the page itself (e.g. "wide") rather than a layer, so they are left out.
+ */
+export const getLayerTags = (doc: Document): string[] => {
+  const tags = new Set<string>();
+  doc.documentElement.querySelectorAll('[data-tags]').forEach(el => {
+    parseTags(el.getAttribute('data-tags')).filter(isLayerTag).forEach(t => tags.add(t));
+  });
+  return Array.from(tags);
+};
+
+/**
+ * Collects the layer tags on an element and its ancestors below the root, i.e. every layer that would hide it.
+ */
+export const getInheritedLayerTags = (el: Element): string[] => {
+  // The outermost <svg>, whether the document's own root or a copy mounted in the page
+  const isRoot = (node: Element) => !node.parentElement?.closest('svg');
+  const tags: string[] = [];
+  for (let node: Element | null = el.closest('[data-tags]'); node && !isRoot(node); node = node.parentElement?.closest('[data-tags]') ?? null) {
+    tags.push(...parseTags(node.getAttribute('data-tags')).filter(isLayerTag));
+  }
+  return tags;
+};
+
+/**
+ * Hides the elements tagged with any of the hidden layers in a parsed SVG document.
+ * Returns true if anything was hidden.
+ */
+export const applyHiddenLayers = (doc: Document, hiddenLayers: string[]): boolean => {
+  if (hiddenLayers.length === 0) return false;
+  const hidden = new Set(hiddenLayers);
+  let changed = false;
+
+  doc.documentElement.querySelectorAll('[data-tags]').forEach(el => {
+    if (!parseTags(el.getAttribute('data-tags')).some(t => hidden.has(t))) return;
+    // The style attribute wins over presentation attributes, so an element's own display can't bring it back
+    el.setAttribute('style', `${el.getAttribute('style') || ''}; display: none;`);
+    changed = true;
+  });
+
+  return changed;
+};
@@ -0,0 +1,132 @@
+import { LibraryEntry, ProcessedPage, StoredPage } from '../types';
+
+const DB_NAME = 'livre-mele-library';
+const DB_VERSION = 1;
+// Entries are small and listed together; page sources can be megabytes, so they live apart and load on open
+const BOOKS_STORE = 'books';
+const PAGES_STORE = 'pages';
+
+// Remembers which book was open, so a reload goes straight back to it
+const OPEN_BOOK_KEY = 'livre-mele:open-book';
+
+interface StoredPages {
+  bookId: string;
+  pages: StoredPage[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(BOOKS_STORE, { keyPath: 'id' });
+        db.createObjectStore(PAGES_STORE, { keyPath: 'bookId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` in one transaction and resolves with its result once the transaction has committed.
+ */
+const withTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+/**
+ * Strips the blob URLs, which only live as long as the tab.
+ */
+export const toStoredPage = ({ url, originalUrl, ...page }: ProcessedPage): StoredPage => page;
+
+/**
+ * Whether the pages differ from what was last saved in anything the library keeps.
+ * Re-rendering only swaps the blob URLs and `redacted`, which restorePage works out again, so it doesn't count.
+ */
+export const haveStoredPagesChanged = (saved: StoredPage[], pages: ProcessedPage[]): boolean =>
+  saved.length !== pages.length || pages.some((page, i) => {
+    const stored = toStoredPage(page);
+    const keys = new Set([...Object.keys(saved[i]), ...Object.keys(stored)]) as Set<keyof StoredPage>;
+    return Array.from(keys).some(key => key !== 'redacted' && saved[i][key] !== stored[key]);
+  });
+
+/**
+ * Lists every saved book, most recently opened first.
+ */
+export const listBooks = async (): Promise<LibraryEntry[]> => {
+  const entries = await withTransaction([BOOKS_STORE], 'readonly', tx =>
+    requestResult(tx.objectStore(BOOKS_STORE).getAll() as IDBRequest<LibraryEntry[]>)
+  );
+  return entries.sort((a, b) => b.openedAt - a.openedAt);
+};
+
+export const addBook = (entry: LibraryEntry, pages: ProcessedPage[]): Promise<void> =>
+  withTransaction([BOOKS_STORE, PAGES_STORE], 'readwrite', async tx => {
+    tx.objectStore(BOOKS_STORE).put(entry);
+    tx.objectStore(PAGES_STORE).put({ bookId: entry.id, pages: pages.map(toStoredPage) } satisfies StoredPages);
+  });
+
+/**
+ * Loads a saved book's pages. They still need their blob URLs recreated before they can be shown.
+ */
+export const loadBookPages = async (id: string): Promise<StoredPage[]> => {
+  const stored = await withTransaction([PAGES_STORE], 'readonly', tx =>
+    requestResult(tx.objectStore(PAGES_STORE).get(id) as IDBRequest<StoredPages | undefined>)
+  );
+  if (!stored) throw new Error(`Book ${id} has no saved pages`);
+  return stored.pages;
+};
+
+export const saveBookPages = (id: string, pages: ProcessedPage[]): Promise<void> =>
+  withTransaction([PAGES_STORE], 'readwrite', async tx => {
+    tx.objectStore(PAGES_STORE).put({ bookId: id, pages: pages.map(toStoredPage) } satisfies StoredPages);
+  });
+
+/**
+ * Merges changes into a saved entry. Does nothing if the book is no longer in the library.
+ */
+export const updateBook = (id: string, changes: Partial<Omit<LibraryEntry, 'id'>>): Promise<void> =>
+  withTransaction([BOOKS_STORE], 'readwrite', async tx => {
+    const store = tx.objectStore(BOOKS_STORE);
+    const entry = await requestResult(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+    if (entry) store.put({ ...entry, ...changes });
+  });
+
+export const deleteBook = (id: string): Promise<void> =>
+  withTransaction([BOOKS_STORE, PAGES_STORE], 'readwrite', async tx => {
+    tx.objectStore(BOOKS_STORE).delete(id);
+    tx.objectStore(PAGES_STORE).delete(id);
+  });
+
+export const getOpenBookId = (): string | null => localStorage.getItem(OPEN_BOOK_KEY);
+
+export const setOpenBookId = (id: string | null) => {
+  if (id) localStorage.setItem(OPEN_BOOK_KEY, id);
+  else localStorage.removeItem(OPEN_BOOK_KEY);
+};
@@ -0,0 +1,55 @@
+import { LibraryEntry, ProcessedPage, ReaderLocation, ReadingMode } from '../types';
+
+const READING_MODES: ReadingMode[] = ['spread', 'single', 'scroll'];
+
+const parseFlag = (value: string | null): boolean | undefined =>
+  value === '1' ? true : value === '0' ? false : undefined;
+
+/**
+ * Reads a location from a URL hash such as "#book=…&page=37&mode=spread&cover=1&spacer=0".
+ * Pages are numbered from 1 in the hash, as printed on them. Returns null if the hash names no book.
+ */
+export const parseLocationHash = (hash: string): ReaderLocation | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const bookId = params.get('book');
+  if (!bookId) return null;
+
+  const page = Number(params.get('page'));
+  const mode = params.get('mode') as ReadingMode | null;
+  return {
+    bookId,
+    title: params.get('title') || undefined,
+    pageIndex: Number.isInteger(page) && page > 0 ? page - 1 : undefined,
+    readingMode: mode && READING_MODES.includes(mode) ? mode : undefined,
+    hasCover: parseFlag(params.get('cover')),
+    useSpacer: parseFlag(params.get('spacer'))
+  };
+};
+
+export const formatLocationHash = (location: ReaderLocation): string => {
+  const params = new URLSearchParams({ book: location.bookId });
+  if (location.title) params.set('title', location.title);
+  if (location.pageIndex !== undefined) params.set('page', String(location.pageIndex + 1));
+  if (location.readingMode) params.set('mode', location.readingMode);
+  if (location.hasCover !== undefined) params.set('cover', location.hasCover ? '1' : '0');
+  if (location.useSpacer !== undefined) params.set('spacer', location.useSpacer ? '1' : '0');
+  return `#${params.toString()}`;
+};
+
+/**
+ * Finds the book a link names: by id, or else by title if exactly one book has it.
+ */
+export const findLinkedBook = (books: LibraryEntry[], location: ReaderLocation): LibraryEntry | undefined => {
+  const byId = books.find(b => b.id === location.bookId);
+  if (byId || !location.title) return byId;
+  const byTitle = books.filter(b => b.title === location.title);
+  return byTitle.length === 1 ? byTitle[0] : undefined;
+};
+
+/**
+ * Finds where the page with the given index comes in the reading order. A hidden page resolves to the next page shown.
+ */
+export const findReadingPosition = (readingPages: ProcessedPage[], pageIndex: number): number => {
+  const position = readingPages.findIndex(p => p.index >= pageIndex);
+  return position >= 0 ? position : Math.max(0, readingPages.length - 1);
+};
@@ -0,0 +1,173 @@
+import { BookManifest, BookMetadata, ChapterHeading, ProcessedPage } from '../types';
+import { isRedactionTag } from './redactionUtils';
+
+export const MANIFEST_FILENAME = 'book.json';
+
+/**
+ * Raised when book.json is present but cannot be used.
+ * The message is meant to be shown to the user as-is.
+ */
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(`${MANIFEST_FILENAME}: ${message}`);
+    this.name = 'ManifestError';
+  }
+}
+
+export const isManifestFile = (file: File): boolean => file.name.toLowerCase() === MANIFEST_FILENAME;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Parses and validates the manifest JSON. Unknown keys are ignored so manifests can carry extra data.
+ */
+export const parseManifest = (text: string): BookManifest => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new ManifestError(`not valid JSON (${e instanceof Error ? e.message : e})`);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ManifestError('expected a JSON object at the top level');
+  }
+  const data = raw as Record<string, unknown>;
+  const manifest: BookManifest = {};
+
+  for (const key of ['title', 'author'] as const) {
+    if (data[key] === undefined) continue;
+    if (typeof data[key] !== 'string') throw new ManifestError(`"${key}" must be a string`);
+    manifest[key] = data[key] as string;
+  }
+
+  if (data.pages !== undefined) {
+    if (!isStringArray(data.pages)) throw new ManifestError('"pages" must be an array of file names');
+    const seen = new Set<string>();
+    for (const name of data.pages) {
+      if (seen.has(name.toLowerCase())) throw new ManifestError(`"pages" lists "${name}" more than once`);
+      seen.add(name.toLowerCase());
+    }
+    manifest.pages = data.pages;
+  }
+
+  if (data.cover !== undefined) {
+    if (typeof data.cover !== 'string' && data.cover !== false) {
+      throw new ManifestError('"cover" must be a page file name, or false for a book without a cover');
+    }
+    manifest.cover = data.cover;
+  }
+
+  if (data.spacer !== undefined) {
+    if (typeof data.spacer !== 'boolean') throw new ManifestError('"spacer" must be true or false');
+    manifest.spacer = data.spacer;
+  }
+
+  if (data.chapters !== undefined) {
+    const chapters = data.chapters;
+    if (!Array.isArray(chapters) || !chapters.every(c =>
+      typeof c === 'object' && c !== null && typeof c.title === 'string' && typeof c.page === 'string'
+      && (c.level === undefined || (Number.isInteger(c.level) && c.level >= 1))
+    )) {
+      throw new ManifestError('"chapters" must be an array of { "title", "page" } objects, with an optional whole "level" of 1 or more');
+    }
+    manifest.chapters = chapters;
+  }
+
+  if (data.hiddenLayers !== undefined) {
+    if (!isStringArray(data.hiddenLayers)) throw new ManifestError('"hiddenLayers" must be an array of tags');
+    const redaction = data.hiddenLayers.find(tag => isRedactionTag(tag.trim().toLowerCase()));
+    if (redaction) throw new ManifestError(`"hiddenLayers" lists "${redaction}", which is a redaction tag, not a layer`);
+    // Tags are matched the way data-tags are read: trimmed and lowercased
+    manifest.hiddenLayers = data.hiddenLayers.map(tag => tag.trim().toLowerCase()).filter(Boolean);
+  }
+
+  if (data.imagePages !== undefined) {
+    if (typeof data.imagePages !== 'boolean') throw new ManifestError('"imagePages" must be true or false');
+    manifest.imagePages = data.imagePages;
+  }
+
+  if (data.direction !== undefined) {
+    if (data.direction !== 'ltr' && data.direction !== 'rtl') throw new ManifestError('"direction" must be "ltr" or "rtl"');
+    manifest.direction = data.direction;
+  }
+
+  if (data.labels !== undefined) {
+    const labels = data.labels;
+    if (typeof labels !== 'object' || labels === null || Array.isArray(labels)
+      || !Object.values(labels).every(v => typeof v === 'string')) {
+      throw new ManifestError('"labels" must map page file names to strings');
+    }
+    manifest.labels = labels as Record<string, string>;
+  }
+
+  return manifest;
+};
+
+/**
+ * File names the manifest refers to as pages, lowercased.
+ * Images named here are pages even when "imagePages" is off.
+ */
+export const getManifestPageNames = (manifest: BookManifest): Set<string> => new Set([
+  ...(manifest.pages || []),
+  ...(typeof manifest.cover === 'string' ? [manifest.cover] : []),
+  ...Object.keys(manifest.labels || {}),
+  ...(manifest.chapters || []).map(c => c.page)
+].map(name => name.toLowerCase()));
+
+/**
+ * Orders and labels pages according to the manifest.
+ * Pages the manifest doesn't list keep their sorted order after the listed ones, but start hidden.
+ */
+export const applyManifest = (
+  pages: ProcessedPage[],
+  manifest: BookManifest
+): { pages: ProcessedPage[]; metadata: BookMetadata } => {
+  const byName = new Map(pages.map(p => [p.name.toLowerCase(), p]));
+  const findPage = (name: string, field: string) => {
+    const page = byName.get(name.toLowerCase());
+    if (!page) throw new ManifestError(`"${field}" refers to "${name}", which is not a page in this book`);
+    return page;
+  };
+
+  let ordered = pages;
+  if (manifest.pages) {
+    const listed = manifest.pages.map(name => findPage(name, 'pages'));
+    const listedIds = new Set(listed.map(p => p.id));
+    const unlisted = pages.filter(p => !listedIds.has(p.id)).map(p => ({ ...p, hidden: true }));
+    ordered = [...listed, ...unlisted];
+  }
+
+  if (typeof manifest.cover === 'string') {
+    const cover = findPage(manifest.cover, 'cover');
+    ordered = [{ ...cover, hidden: false }, ...ordered.filter(p => p.id !== cover.id)];
+  }
+
+  if (manifest.labels) {
+    for (const name of Object.keys(manifest.labels)) findPage(name, 'labels');
+    const labels = new Map(Object.entries(manifest.labels).map(([name, label]) => [name.toLowerCase(), label]));
+    ordered = ordered.map(p => labels.has(p.name.toLowerCase()) ? { ...p, label: labels.get(p.name.toLowerCase()) } : p);
+  }
+
+  if (manifest.chapters) {
+    const headings = new Map<string, ChapterHeading[]>();
+    for (const { title, page, level } of manifest.chapters) {
+      const id = findPage(page, 'chapters').id;
+      headings.set(id, [...(headings.get(id) || []), { title, level: level ?? 1 }]);
+    }
+    ordered = ordered.map(p => headings.has(p.id) ? { ...p, chapters: headings.get(p.id) } : p);
+  }
+
+  return {
+    pages: ordered.map((page, index) => ({ ...page, index })),
+    metadata: {
+      title: manifest.title,
+      author: manifest.author,
+      hasCover: manifest.cover !== undefined ? manifest.cover !== false : undefined,
+      useSpacer: manifest.spacer,
+      direction: manifest.direction,
+      hiddenLayers: manifest.hiddenLayers
+    }
+  };
+};
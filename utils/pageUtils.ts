@@ -0,0 +1,48 @@
+import { ProcessedPage } from '../types';
+
+/**
+ * Assigns each page its position in the sequence.
+ */
+export const reindexPages = (pages: ProcessedPage[]): ProcessedPage[] => {
+  return pages.map((page, index) => (page.index === index ? page : { ...page, index }));
+};
+
+/**
+ * Returns the pages that are actually read, in order, with indices recomputed from the edited sequence.
+ */
+export const getReadingOrder = (pages: ProcessedPage[]): ProcessedPage[] => {
+  return reindexPages(pages.filter(p => !p.hidden));
+};
+
+/**
+ * Moves the page at `from` so that it ends up at position `to`.
+ */
+export const movePage = (pages: ProcessedPage[], from: number, to: number): ProcessedPage[] => {
+  if (from === to || from < 0 || from >= pages.length) return pages;
+  const next = [...pages];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+};
+
+/**
+ * Creates an empty white page, sized after a neighbouring page.
+ */
+export const createBlankPage = (template?: ProcessedPage): ProcessedPage => ({
+  id: crypto.randomUUID(),
+  name: 'Blank page',
+  url: '',
+  index: 0,
+  width: template?.width || 595,
+  height: template?.height || 842,
+  isBlank: true
+});
+
+/**
+ * Releases every blob URL a page holds.
+ */
+export const revokePageUrls = (page: ProcessedPage) => {
+  if (page.isBlank || page.isPending) return;
+  URL.revokeObjectURL(page.url);
+  if (page.originalUrl) URL.revokeObjectURL(page.originalUrl);
+};
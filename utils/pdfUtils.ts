@@ -0,0 +1,147 @@
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import { ProcessedPage, BookMetadata } from '../types';
+import { getAllSpreads } from './spreadUtils';
+import { loadImage } from './thumbnailUtils';
+
+// Resolution multiplier used when a page has to be rasterized
+const RASTER_SCALE = 2;
+
+interface PdfPageSpec {
+  page: ProcessedPage | null; // null renders a blank spacer page
+  width: number;
+  height: number;
+}
+
+/**
+ * Flattens the spreads shown by BookReader into a linear page sequence.
+ * Every spread after the cover takes exactly two PDF pages, so a two-page PDF viewer reproduces the same layout:
+ * spacers and the missing partner of a lone page become blank pages, and a wide page is followed by a blank one.
+ */
+function getPdfPageSequence(pages: ProcessedPage[], hasCover: boolean, useSpacer: boolean): PdfPageSpec[] {
+  const fallback = pages[0];
+  const sizeOf = (page: ProcessedPage | null | undefined) => ({
+    width: page?.width || fallback?.width || 595,
+    height: page?.height || fallback?.height || 842
+  });
+
+  const sequence: PdfPageSpec[] = [];
+  for (const spread of getAllSpreads(pages, hasCover, useSpacer)) {
+    if (spread.isCoverView) {
+      // 'tworight' shows the first page on its own
+      sequence.push({ page: spread.right, ...sizeOf(spread.right) });
+    } else if (spread.isWide && spread.left) {
+      const size = sizeOf(spread.left);
+      sequence.push({ page: spread.left, ...size });
+      // Half the wide page's width, as a facing page would be
+      sequence.push({ page: null, width: size.width / 2, height: size.height });
+    } else {
+      // Blank sides are sized after the page they face
+      sequence.push({ page: spread.left, ...sizeOf(spread.left ?? spread.right) });
+      sequence.push({ page: spread.right, ...sizeOf(spread.right ?? spread.left) });
+    }
+  }
+  // Blank pages after the last one fill no spread
+  while (sequence.length > 1 && !sequence[sequence.length - 1].page) sequence.pop();
+  return sequence;
+}
+
+/**
+ * Draws the page through an <img> onto a canvas and embeds the bitmap.
+ * Used for redacted pages, since svg2pdf ignores SVG filters and would reveal blurred images.
+ */
+async function addRasterPage(pdf: jsPDF, spec: PdfPageSpec, page: ProcessedPage) {
+  const img = await loadImage(page.url);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(spec.width * RASTER_SCALE);
+  canvas.height = Math.round(spec.height * RASTER_SCALE);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  pdf.addImage(canvas, 'PNG', 0, 0, spec.width, spec.height);
+}
+
+/**
+ * Converts the page's SVG into native PDF drawing operations.
+ */
+async function addVectorPage(pdf: jsPDF, spec: PdfPageSpec, page: ProcessedPage) {
+  const content = await (await fetch(page.url)).text();
+  const doc = new DOMParser().parseFromString(content, 'image/svg+xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Could not parse ${page.name}`);
+  }
+
+  // svg2pdf reads computed styles, so the SVG has to be attached to the document while it renders
+  const host = document.createElement('div');
+  host.style.cssText = 'position:fixed;left:-100000px;top:0;visibility:hidden;';
+  const svgElement = document.importNode(doc.documentElement, true);
+  host.appendChild(svgElement);
+  document.body.appendChild(host);
+
+  try {
+    await svg2pdf(svgElement, pdf, { x: 0, y: 0, width: spec.width, height: spec.height });
+  } finally {
+    host.remove();
+  }
+}
+
+/**
+ * Renders the assembled book into a single PDF and triggers a download.
+ * Each page keeps its extracted width/height (in PDF points), and the order,
+ * cover and spacer pages match what BookReader shows.
+ */
+export const exportBookToPdf = async (
+  pages: ProcessedPage[],
+  hasCover: boolean,
+  useSpacer: boolean,
+  metadata: BookMetadata = {}
+): Promise<void> => {
+  const sequence = getPdfPageSequence(pages, hasCover, useSpacer);
+  if (sequence.length === 0) return;
+
+  const orientationOf = (spec: PdfPageSpec) => spec.width > spec.height ? 'landscape' : 'portrait';
+
+  const first = sequence[0];
+  const pdf = new jsPDF({
+    unit: 'pt',
+    format: [first.width, first.height],
+    orientation: orientationOf(first),
+    compress: true
+  });
+
+  pdf.setProperties({
+    title: metadata.title || '',
+    author: metadata.author || '',
+    creator: 'LivreMêlé Débrouilleur'
+  });
+
+  // Ask viewers for two-page layout; 'tworight' keeps the cover alone on the first spread
+  pdf.setDisplayMode('fullpage', hasCover ? 'tworight' : 'twoleft');
+  if (metadata.direction === 'rtl') {
+    pdf.viewerPreferences({ Direction: 'R2L' });
+  }
+
+  for (let i = 0; i < sequence.length; i++) {
+    const spec = sequence[i];
+    if (i > 0) pdf.addPage([spec.width, spec.height], orientationOf(spec));
+    if (!spec.page || spec.page.isBlank) continue; // Spacer or inserted blank page
+
+    if (spec.page.redacted) {
+      await addRasterPage(pdf, spec, spec.page);
+      continue;
+    }
+
+    try {
+      await addVectorPage(pdf, spec, spec.page);
+    } catch (e) {
+      console.warn("Vector export failed, rasterizing page instead:", spec.page.name, e);
+      await addRasterPage(pdf, spec, spec.page);
+    }
+  }
+
+  pdf.save(`${metadata.title || 'book'}.pdf`);
+};
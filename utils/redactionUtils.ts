@@ -0,0 +1,255 @@
+import { RedactionMethod, RedactionPolicy, RedactionRegion } from '../types';
+import { MeasureElement } from './svgUtils';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+export const REDACTION_METHODS: RedactionMethod[] = ['blur', 'black-box', 'pixelate', 'hide'];
+
+// Everything is redacted unless the session explicitly opts a tag out, and every layer is shown
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = { disabledTags: [], hiddenLayers: [] };
+
+// 1x1 black PNG, stretched over a redacted image so its pixels never reach the blob
+const BLACK_PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// Side of a pixelation block, in the SVG's user units
+const PIXEL_SIZE = 24;
+
+/**
+ * Splits a data-tags attribute into normalised tags.
+ */
+export const parseTags = (tagsStr: string | null): string[] => {
+  return (tagsStr || '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+};
+
+export const isRedactionTag = (tag: string): boolean => tag.startsWith('redact');
+
+/**
+ * Reads the method from a tag of the form redact[:method][:category].
+ * A bare "redact", or an unknown method, keeps the original blur behaviour.
+ */
+export const getRedactionMethod = (tag: string): RedactionMethod => {
+  const method = tag.split(':')[1] as RedactionMethod | undefined;
+  return method && REDACTION_METHODS.includes(method) ? method : 'blur';
+};
+
+/**
+ * Lists the distinct redaction tags used in a document.
+ */
+export const getRedactionTags = (doc: Document): string[] => {
+  const tags = new Set<string>();
+  doc.querySelectorAll('[data-tags]').forEach(el => {
+    parseTags(el.getAttribute('data-tags')).filter(isRedactionTag).forEach(t => tags.add(t));
+  });
+  return Array.from(tags);
+};
+
+/**
+ * Measures every redaction-tagged element so the reader can outline it.
+ */
+export const measureRedactionRegions = (svg: SVGSVGElement, measure: MeasureElement): RedactionRegion[] => {
+  const regions: RedactionRegion[] = [];
+  svg.querySelectorAll('[data-tags]').forEach(el => {
+    const label = el.getAttribute('data-tags') || '';
+    const tags = parseTags(label).filter(isRedactionTag);
+    if (tags.length === 0) return;
+
+    const box = measure(el);
+    if (box) regions.push({ ...box, tags, label });
+  });
+  return regions;
+};
+
+/**
+ * Collects the redaction tags on an element and its ancestors, i.e. every tag that would redact it.
+ */
+export const getInheritedRedactionTags = (el: Element): string[] => {
+  const tags: string[] = [];
+  for (let node: Element | null = el.closest('[data-tags]'); node; node = node.parentElement?.closest('[data-tags]') ?? null) {
+    tags.push(...parseTags(node.getAttribute('data-tags')).filter(isRedactionTag));
+  }
+  return tags;
+};
+
+/**
+ * Recursive function to redact text nodes by replacing content with blocks.
+ */
+const redactTextNodes = (node: Node) => {
+  // Node.TEXT_NODE is 3
+  if (node.nodeType === 3 && node.textContent) {
+    // Replace non-whitespace characters with U+25AE (Black Vertical Rectangle)
+    node.textContent = node.textContent.replace(/[^\s]/g, '\u25AE');
+  } else {
+    node.childNodes.forEach(child => redactTextNodes(child));
+  }
+};
+
+const getImages = (el: Element): Element[] => {
+  // Select self if image, or descendant images
+  return el.nodeName.toLowerCase() === 'image' ? [el] : Array.from(el.getElementsByTagName('image'));
+};
+
+// Elements that draw shapes or text with their own fill and stroke
+const PAINTED_SELECTOR = 'path, rect, circle, ellipse, line, polyline, polygon, text, tspan, textPath, use';
+
+const BLACK_BOX_STYLE = 'fill: #000; stroke: #000; fill-opacity: 1; stroke-opacity: 1;';
+
+// The tagged element and everything inside it that paints
+const getPaintedElements = (el: Element): Element[] => [el, ...Array.from(el.querySelectorAll(PAINTED_SELECTOR))];
+
+const setImageHref = (img: Element, href: string) => {
+  if (img.hasAttributeNS(XLINK_NS, 'href')) img.setAttributeNS(XLINK_NS, 'xlink:href', href);
+  if (img.hasAttribute('href')) img.setAttribute('href', href);
+  if (!img.hasAttributeNS(XLINK_NS, 'href') && !img.hasAttribute('href')) img.setAttribute('href', href);
+};
+
+/**
+ * Creates the shared filter definitions lazily, one per method, with unique IDs to avoid conflicts.
+ */
+const createFilterFactory = (doc: Document) => {
+  const ids = new Map<string, string>();
+
+  const getDefs = () => {
+    // Create or get <defs>
+    let defs = doc.querySelector('defs');
+    if (!defs) {
+      defs = doc.createElementNS(SVG_NS, 'defs');
+      if (doc.documentElement.firstChild) {
+        doc.documentElement.insertBefore(defs, doc.documentElement.firstChild);
+      } else {
+        doc.documentElement.appendChild(defs);
+      }
+    }
+    return defs;
+  };
+
+  const create = (kind: 'blur' | 'pixelate'): string => {
+    const filterId = `redact-${kind}-` + Math.random().toString(36).substr(2, 9);
+    const filter = doc.createElementNS(SVG_NS, 'filter');
+    filter.setAttribute('id', filterId);
+
+    if (kind === 'blur') {
+      // Expand filter region to prevent clipping of the blur at element edges
+      filter.setAttribute('x', '-50%');
+      filter.setAttribute('y', '-50%');
+      filter.setAttribute('width', '200%');
+      filter.setAttribute('height', '200%');
+
+      const feGaussian = doc.createElementNS(SVG_NS, 'feGaussianBlur');
+      feGaussian.setAttribute('in', 'SourceGraphic');
+      // Significantly increased stdDeviation for even stronger blur
+      feGaussian.setAttribute('stdDeviation', '150');
+      // Duplicate edges so we don't fade to transparent at the border of the image
+      feGaussian.setAttribute('edgeMode', 'duplicate');
+      filter.appendChild(feGaussian);
+    } else {
+      // Sample one pixel per block, tile the samples, then grow each sample to fill its block
+      const half = PIXEL_SIZE / 2;
+      // The grid is anchored at the page origin so blocks line up across elements
+      filter.setAttribute('x', '0');
+      filter.setAttribute('y', '0');
+      filter.setAttribute('width', '100%');
+      filter.setAttribute('height', '100%');
+      filter.setAttribute('filterUnits', 'userSpaceOnUse');
+      filter.setAttribute('primitiveUnits', 'userSpaceOnUse');
+
+      const feFlood = doc.createElementNS(SVG_NS, 'feFlood');
+      feFlood.setAttribute('x', `${half}`);
+      feFlood.setAttribute('y', `${half}`);
+      feFlood.setAttribute('width', '1');
+      feFlood.setAttribute('height', '1');
+
+      const feSample = doc.createElementNS(SVG_NS, 'feComposite');
+      feSample.setAttribute('width', `${PIXEL_SIZE}`);
+      feSample.setAttribute('height', `${PIXEL_SIZE}`);
+
+      const feTile = doc.createElementNS(SVG_NS, 'feTile');
+      feTile.setAttribute('result', 'grid');
+
+      const feMask = doc.createElementNS(SVG_NS, 'feComposite');
+      feMask.setAttribute('in', 'SourceGraphic');
+      feMask.setAttribute('in2', 'grid');
+      feMask.setAttribute('operator', 'in');
+
+      const feDilate = doc.createElementNS(SVG_NS, 'feMorphology');
+      feDilate.setAttribute('operator', 'dilate');
+      feDilate.setAttribute('radius', `${half}`);
+
+      [feFlood, feSample, feTile, feMask, feDilate].forEach(fe => filter.appendChild(fe));
+    }
+
+    getDefs().appendChild(filter);
+    return filterId;
+  };
+
+  return (kind: 'blur' | 'pixelate'): string => {
+    if (!ids.has(kind)) ids.set(kind, create(kind));
+    return ids.get(kind)!;
+  };
+};
+
+/**
+ * Applies one redaction method to a tagged element.
+ * Text is always replaced with blocks so the original characters never reach the rendered blob.
+ */
+const redactElement = (el: Element, method: RedactionMethod, getFilter: ReturnType<typeof createFilterFactory>) => {
+  const images = getImages(el);
+
+  switch (method) {
+    case 'blur':
+      images.forEach(img => {
+        // Apply SVG filter
+        img.setAttribute('filter', `url(#${getFilter('blur')})`);
+        // Keep CSS fallback just in case, but native SVG filter is primary
+        const existingStyle = img.getAttribute('style') || '';
+        img.setAttribute('style', `${existingStyle}; filter: blur(150px);`);
+      });
+      break;
+
+    case 'pixelate':
+      images.forEach(img => img.setAttribute('filter', `url(#${getFilter('pixelate')})`));
+      break;
+
+    case 'black-box':
+      images.forEach(img => {
+        setImageHref(img, BLACK_PIXEL);
+        img.setAttribute('preserveAspectRatio', 'none');
+      });
+      // Solid fill turns the replacement blocks (and any shapes) into opaque bars.
+      // Every descendant gets it too, since a child's own fill or stroke would beat an inherited one.
+      getPaintedElements(el).forEach(painted => {
+        painted.setAttribute('style', `${painted.getAttribute('style') || ''}; ${BLACK_BOX_STYLE}`);
+      });
+      break;
+
+    case 'hide':
+      // Drop image data too. Unlike visibility, display: none in the style attribute can't be undone
+      // by the element's own style or a child's visibility="visible"; regions are measured from the kept source.
+      images.forEach(img => setImageHref(img, BLACK_PIXEL));
+      el.setAttribute('style', `${el.getAttribute('style') || ''}; display: none;`);
+      break;
+  }
+
+  redactTextNodes(el);
+};
+
+/**
+ * Applies the redactions enabled by the policy to a parsed SVG document.
+ * Returns true if anything was redacted.
+ */
+export const applyRedactions = (doc: Document, policy: RedactionPolicy): boolean => {
+  const disabled = new Set(policy.disabledTags);
+  const getFilter = createFilterFactory(doc);
+  let redacted = false;
+
+  doc.querySelectorAll('[data-tags]').forEach(el => {
+    const tags = parseTags(el.getAttribute('data-tags')).filter(t => isRedactionTag(t) && !disabled.has(t));
+    if (tags.length === 0) return;
+
+    // An element carrying several redaction tags gets every method they ask for
+    new Set(tags.map(getRedactionMethod)).forEach(method => redactElement(el, method, getFilter));
+    redacted = true;
+  });
+
+  return redacted;
+};
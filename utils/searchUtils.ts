@@ -0,0 +1,110 @@
+import { ProcessedPage, RedactionPolicy, SearchHit, TextRun } from '../types';
+import { getInheritedRedactionTags } from './redactionUtils';
+import { getInheritedLayerTags } from './layerUtils';
+import { MeasureElement } from './svgUtils';
+
+// Characters of context shown on either side of a match
+const SNIPPET_CONTEXT = 40;
+const MAX_HITS = 500;
+
+interface SearchIndexEntry {
+  page: ProcessedPage;
+  text: string;
+  folded: string; // Same length as text, so offsets are shared
+  runStarts: number[];
+  runIndices: number[]; // Index into page.textRuns for each searchable run
+}
+
+/**
+ * Collects the text of every text element in document order, one run per stretch of text,
+ * so text around a nested <tspan> is kept as well as the <tspan>'s own.
+ */
+export const extractTextRuns = (svg: SVGSVGElement, measure: MeasureElement): TextRun[] => {
+  const runs: TextRun[] = [];
+  const walker = svg.ownerDocument.createTreeWalker(svg, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const el = node.parentElement;
+    if (!el || !el.matches('text, tspan, textPath')) continue;
+    const text = (node.data || '').replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+
+    runs.push({
+      text,
+      // An element with nothing but this text is measured whole, as it is drawn
+      box: (el.children.length === 0 ? measure(el) : measure(node)) ?? undefined,
+      redactionTags: getInheritedRedactionTags(el),
+      layerTags: getInheritedLayerTags(el)
+    });
+  }
+  return runs;
+};
+
+/**
+ * Lowercases and strips accents one UTF-16 unit at a time, keeping offsets aligned with the original.
+ */
+const fold = (text: string): string => {
+  let folded = '';
+  for (const unit of text.split('')) {
+    folded += unit.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()[0] ?? unit;
+  }
+  return folded;
+};
+
+/**
+ * Builds the searchable text of each page, leaving out anything the policy redacts or hides.
+ */
+export const buildSearchIndex = (pages: ProcessedPage[], policy: RedactionPolicy): SearchIndexEntry[] => {
+  const disabled = new Set(policy.disabledTags);
+  const hiddenLayers = new Set(policy.hiddenLayers);
+
+  return pages.filter(p => p.textRuns?.length).map(page => {
+    const runStarts: number[] = [];
+    const runIndices: number[] = [];
+    let text = '';
+
+    page.textRuns!.forEach((run, i) => {
+      if (run.redactionTags.some(t => !disabled.has(t))) return;
+      if (run.layerTags?.some(t => hiddenLayers.has(t))) return;
+      if (text) text += ' ';
+      runStarts.push(text.length);
+      runIndices.push(i);
+      text += run.text;
+    });
+
+    return { page, text, folded: fold(text), runStarts, runIndices };
+  });
+};
+
+/**
+ * Finds every occurrence of the query, ignoring case and accents.
+ */
+export const searchBook = (index: SearchIndexEntry[], query: string): SearchHit[] => {
+  const needle = fold(query.trim().replace(/\s+/g, ' '));
+  if (!needle) return [];
+
+  const hits: SearchHit[] = [];
+  for (const entry of index) {
+    let pos = entry.folded.indexOf(needle);
+    while (pos !== -1 && hits.length < MAX_HITS) {
+      const end = pos + needle.length;
+      const runIndices = entry.runIndices.filter((_, i) => {
+        const start = entry.runStarts[i];
+        const runEnd = start + entry.page.textRuns![entry.runIndices[i]].text.length;
+        return start < end && runEnd > pos;
+      });
+
+      const from = Math.max(0, pos - SNIPPET_CONTEXT);
+      const to = Math.min(entry.text.length, end + SNIPPET_CONTEXT);
+      hits.push({
+        pageId: entry.page.id,
+        pageIndex: entry.page.index,
+        before: (from > 0 ? '…' : '') + entry.text.slice(from, pos),
+        match: entry.text.slice(pos, end),
+        after: entry.text.slice(end, to) + (to < entry.text.length ? '…' : ''),
+        runIndices
+      });
+      pos = entry.folded.indexOf(needle, end);
+    }
+  }
+  return hits;
+};
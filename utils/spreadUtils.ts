@@ -0,0 +1,148 @@
+import { ProcessedPage, ReadingMode, Spread } from '../types';
+
+// A page at least this much wider (relative to its height) than the book's usual page fills a spread on its own
+const WIDE_PAGE_FACTOR = 1.5;
+
+const EMPTY_SPREAD: Spread = { left: null, right: null, isCoverView: false, leftIsSpacer: false, isWide: false };
+
+const aspectRatio = (page: ProcessedPage): number => (page.width || 595) / (page.height || 842);
+
+/**
+ * The aspect ratio most pages of the book share (the median), which wide pages are measured against.
+ */
+export const getTypicalAspectRatio = (pages: ProcessedPage[]): number => {
+  const ratios = pages.filter(p => !p.isPending && p.width && p.height).map(aspectRatio).sort((a, b) => a - b);
+  return ratios.length > 0 ? ratios[Math.floor(ratios.length / 2)] : 595 / 842;
+};
+
+/**
+ * Whether a page fills a whole spread: tagged "wide", or much wider than the book's other pages (foldouts, landscape inserts).
+ */
+export const isWidePage = (page: ProcessedPage, typicalRatio: number): boolean =>
+  !!page.isWide || (!page.isPending && aspectRatio(page) >= typicalRatio * WIDE_PAGE_FACTOR);
+
+/**
+ * Lays out the whole book as the list of spreads the reader would show.
+ * The cover (if any) stands alone, the spacer (if any) faces the first content page,
+ * and wide pages take a spread of their own, so the page before one may face nothing.
+ */
+export const getAllSpreads = (pages: ProcessedPage[], hasCover: boolean, useSpacer: boolean): Spread[] => {
+  if (pages.length === 0) return [];
+  const typicalRatio = getTypicalAspectRatio(pages);
+  const spreads: Spread[] = [];
+
+  let contentPages = pages;
+  if (hasCover) {
+    spreads.push({ ...EMPTY_SPREAD, right: pages[0], isCoverView: true });
+    contentPages = pages.slice(1);
+  }
+
+  // The page waiting for a facing page; with a spacer the first content page goes on the right
+  let left: ProcessedPage | null = null;
+  let leftIsSpacer = useSpacer;
+  for (const page of contentPages) {
+    if (isWidePage(page, typicalRatio)) {
+      // A spacer would only face the wide page, so it is dropped
+      if (left) spreads.push({ ...EMPTY_SPREAD, left });
+      spreads.push({ ...EMPTY_SPREAD, left: page, isWide: true });
+      left = null;
+      leftIsSpacer = false;
+    } else if (left || leftIsSpacer) {
+      spreads.push({ ...EMPTY_SPREAD, left, right: page, leftIsSpacer });
+      left = null;
+      leftIsSpacer = false;
+    } else {
+      left = page;
+    }
+  }
+  if (left) spreads.push({ ...EMPTY_SPREAD, left });
+
+  return spreads;
+};
+
+/**
+ * Counts the spreads needed to show a book under the given cover and spacer settings.
+ * In single-page and scroll modes every page is its own "spread".
+ */
+export const getTotalSpreads = (
+  pages: ProcessedPage[],
+  hasCover: boolean,
+  useSpacer: boolean,
+  readingMode: ReadingMode = 'spread'
+): number => readingMode !== 'spread' ? pages.length : getAllSpreads(pages, hasCover, useSpacer).length;
+
+/**
+ * Calculates which pages to show based on spreadIndex, cover mode, and spacer alignment.
+ */
+export const getSpread = (
+  pages: ProcessedPage[],
+  spreadIndex: number,
+  hasCover: boolean,
+  useSpacer: boolean
+): Spread => getAllSpreads(pages, hasCover, useSpacer)[spreadIndex] ?? EMPTY_SPREAD;
+
+/**
+ * The pages at each spread index of a layout, in reading order, for overviews of the book.
+ * In spread mode a spacer is a null before the first content page; otherwise every page stands alone.
+ */
+export const getSpreadPages = (
+  pages: ProcessedPage[],
+  hasCover: boolean,
+  useSpacer: boolean,
+  readingMode: ReadingMode = 'spread'
+): (ProcessedPage | null)[][] => {
+  if (readingMode !== 'spread') return pages.map(page => [page]);
+  return getAllSpreads(pages, hasCover, useSpacer).map(({ left, right, leftIsSpacer }) => [
+    ...(left ? [left] : leftIsSpacer ? [null] : []),
+    ...(right ? [right] : [])
+  ]);
+};
+
+/**
+ * Finds the spread that shows the page at the given reading-order index.
+ */
+export const getSpreadIndexForPage = (
+  pages: ProcessedPage[],
+  pageIndex: number,
+  hasCover: boolean,
+  useSpacer: boolean,
+  readingMode: ReadingMode = 'spread'
+): number => {
+  if (pageIndex <= 0) return 0;
+  if (readingMode !== 'spread') return pageIndex;
+  const page = pages[pageIndex];
+  return Math.max(0, getAllSpreads(pages, hasCover, useSpacer).findIndex(s => s.left === page || s.right === page));
+};
+
+/**
+ * Finds the first real page shown on a spread, skipping the spacer.
+ */
+export const getPageIndexForSpread = (
+  pages: ProcessedPage[],
+  spreadIndex: number,
+  hasCover: boolean,
+  useSpacer: boolean,
+  readingMode: ReadingMode = 'spread'
+): number => {
+  if (spreadIndex <= 0) return 0;
+  if (readingMode !== 'spread') return spreadIndex;
+  const spread = getAllSpreads(pages, hasCover, useSpacer)[spreadIndex];
+  const page = spread?.left ?? spread?.right;
+  return page ? pages.indexOf(page) : 0;
+};
+
+/**
+ * Maps a spread index from one reading mode to another, keeping the first page shown.
+ */
+export const convertSpreadIndex = (
+  pages: ProcessedPage[],
+  spreadIndex: number,
+  hasCover: boolean,
+  useSpacer: boolean,
+  from: ReadingMode,
+  to: ReadingMode
+): number => {
+  if (from === to) return spreadIndex;
+  const pageIndex = getPageIndexForSpread(pages, spreadIndex, hasCover, useSpacer, from);
+  return getSpreadIndexForPage(pages, pageIndex, hasCover, useSpacer, to);
+};
@@ -0,0 +1,73 @@
+import { Box } from '../types';
+
+/**
+ * Returns the bounding box of an element, or of a text node's glyphs, in the page's viewBox units, relative to the viewBox origin.
+ */
+export type MeasureElement = (node: Element | Text) => Box | null;
+
+/**
+ * Briefly attaches a copy of the SVG to the document, since geometry is only known once it is laid out.
+ * The callback receives the attached copy, so it must query that rather than the original document.
+ */
+export const withMountedSvg = <T>(doc: Document, callback: (svg: SVGSVGElement, measure: MeasureElement) => T): T => {
+  const host = document.createElement('div');
+  host.style.cssText = 'position:fixed;left:-100000px;top:0;width:1000px;visibility:hidden;';
+  const svg = document.importNode(doc.documentElement, true) as unknown as SVGSVGElement;
+  host.appendChild(svg);
+  document.body.appendChild(host);
+
+  try {
+    const rootCTM = svg.getScreenCTM?.();
+    const toRoot = rootCTM?.inverse();
+    const viewBox = svg.viewBox?.baseVal;
+    const originX = viewBox && viewBox.width ? viewBox.x : 0;
+    const originY = viewBox && viewBox.height ? viewBox.y : 0;
+
+    // The corners of a box in the page's own coordinates
+    const getCorners = (node: Element | Text): DOMPoint[] | null => {
+      if (!toRoot) return null;
+      if (node.nodeType === Node.TEXT_NODE) {
+        // Text nodes have no getBBox; a range gives their box on screen, which the root's CTM maps back
+        const range = document.createRange();
+        range.selectNodeContents(node);
+        const rect = range.getBoundingClientRect();
+        if (!rect.width && !rect.height) return null;
+        return [
+          new DOMPoint(rect.left, rect.top),
+          new DOMPoint(rect.right, rect.top),
+          new DOMPoint(rect.left, rect.bottom),
+          new DOMPoint(rect.right, rect.bottom)
+        ].map(p => p.matrixTransform(toRoot));
+      }
+
+      const graphic = node as SVGGraphicsElement;
+      const ctm = graphic.getScreenCTM?.();
+      if (!ctm || !graphic.getBBox) return null;
+      const box = graphic.getBBox();
+      const matrix = toRoot.multiply(ctm);
+      return [
+        new DOMPoint(box.x, box.y),
+        new DOMPoint(box.x + box.width, box.y),
+        new DOMPoint(box.x, box.y + box.height),
+        new DOMPoint(box.x + box.width, box.y + box.height)
+      ].map(p => p.matrixTransform(matrix));
+    };
+
+    const measure: MeasureElement = (node) => {
+      const corners = getCorners(node);
+      if (!corners) return null;
+      const xs = corners.map(p => p.x);
+      const ys = corners.map(p => p.y);
+      return {
+        x: Math.min(...xs) - originX,
+        y: Math.min(...ys) - originY,
+        width: Math.max(...xs) - Math.min(...xs),
+        height: Math.max(...ys) - Math.min(...ys)
+      };
+    };
+
+    return callback(svg, measure);
+  } finally {
+    host.remove();
+  }
+};
@@ -0,0 +1,92 @@
+export const THUMBNAIL_WIDTH = 160;
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+    img.src = url;
+  });
+};
+
+/**
+ * Draws an image URL onto a small canvas and returns it as a JPEG data URL, which is cheap to store and list.
+ */
+export const renderThumbnail = async (url: string, width: number, height: number): Promise<string> => {
+  const img = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round(THUMBNAIL_WIDTH * (height / width));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// Rendered page thumbnails by blob URL. A page re-rendered under other redactions or layers gets a new URL, so a new thumbnail.
+const pageThumbnails = new Map<string, string>();
+// Enough for every page of a long book in a couple of renditions; the oldest are dropped beyond that
+const MAX_PAGE_THUMBNAILS = 1500;
+
+interface ThumbnailRequest {
+  url: string;
+  width: number;
+  height: number;
+  resolve: (thumbnail: string) => void;
+  reject: (error: unknown) => void;
+}
+
+const pendingRequests: ThumbnailRequest[] = [];
+let isRenderingThumbnails = false;
+
+// Renders one thumbnail at a time, newest request first: those are the ones that just scrolled into view
+const renderPendingThumbnails = async () => {
+  if (isRenderingThumbnails) return;
+  isRenderingThumbnails = true;
+  while (pendingRequests.length > 0) {
+    const request = pendingRequests.pop()!;
+    // Another request for the same page may have been served meanwhile
+    const cached = pageThumbnails.get(request.url);
+    if (cached) {
+      request.resolve(cached);
+      continue;
+    }
+    try {
+      const thumbnail = await renderThumbnail(request.url, request.width, request.height);
+      pageThumbnails.set(request.url, thumbnail);
+      if (pageThumbnails.size > MAX_PAGE_THUMBNAILS) pageThumbnails.delete(pageThumbnails.keys().next().value!);
+      request.resolve(thumbnail);
+    } catch (error) {
+      request.reject(error);
+    }
+    // Let the browser paint and handle input between thumbnails
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  isRenderingThumbnails = false;
+};
+
+export const getCachedPageThumbnail = (url: string): string | undefined => pageThumbnails.get(url);
+
+/**
+ * Renders a small thumbnail of a processed page's blob URL, or returns the cached one.
+ * Requests are queued so only one page is drawn at a time; aborting drops a request that hasn't started.
+ */
+export const getPageThumbnail = (url: string, width: number, height: number, signal?: AbortSignal): Promise<string> => {
+  const cached = pageThumbnails.get(url);
+  if (cached) return Promise.resolve(cached);
+
+  return new Promise((resolve, reject) => {
+    const request: ThumbnailRequest = { url, width, height, resolve, reject };
+    signal?.addEventListener('abort', () => {
+      const index = pendingRequests.indexOf(request);
+      if (index >= 0) pendingRequests.splice(index, 1);
+      reject(signal.reason);
+    });
+    pendingRequests.push(request);
+    renderPendingThumbnails();
+  });
+};